@@ -20,9 +20,11 @@ function isRateLimited(ip: string): boolean {
   return false
 }
 
-export async function POST(
+// Forwards the request to the same path on the Vapi API with the user's key
+async function forwardToVapi(
   request: NextRequest,
-  { params }: { params: { path: string[] } }
+  params: { path: string[] },
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE'
 ) {
   try {
     // Extract user's API key from header
@@ -40,36 +42,45 @@ export async function POST(
     // Rate limiting per IP
     const clientIp = request.headers.get('x-forwarded-for') || 'unknown'
     if (isRateLimited(clientIp)) {
+      // Tell the client when the current window ends so it can retry then
+      const resetTime = rateLimitMap.get(clientIp)!.resetTime
       return NextResponse.json(
         { error: 'Too many requests. Please wait a moment.' },
-        { status: 429 }
+        { status: 429, headers: { 'Retry-After': String(Math.ceil((resetTime - Date.now()) / 1000)) } }
       )
     }
     
-    // Get the path from params
+    // Get the path from params; the query string carries list filters and paging
     const path = params.path?.join('/') || ''
     
-    // Get request body
-    const body = await request.json()
-    
-    // Forward request to Vapi
+    // Forward request to Vapi, with the body for methods that have one
     const vapiResponse = await fetch(
-      `https://api.vapi.ai/${path}`,
+      `https://api.vapi.ai/${path}${request.nextUrl.search}`,
       {
-        method: 'POST',
+        method,
         headers: {
           'Authorization': `Bearer ${userApiKey}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(body)
+        ...((method === 'POST' || method === 'PATCH') && { body: JSON.stringify(await request.json()) })
       }
     )
     
-    // Get response data
-    const data = await vapiResponse.json()
+    // A response with no content can't carry a JSON body either
+    if (vapiResponse.status === 204) {
+      return new NextResponse(null, { status: 204 })
+    }
+
+    // Get response data; DELETE may answer with an empty body
+    const text = await vapiResponse.text()
+    const data = text ? JSON.parse(text) : {}
     
-    // Return Vapi response with same status
-    return NextResponse.json(data, { status: vapiResponse.status })
+    // Return Vapi response with same status, keeping its hint on when to retry
+    const retryAfter = vapiResponse.headers.get('Retry-After')
+    return NextResponse.json(data, {
+      status: vapiResponse.status,
+      ...(retryAfter && { headers: { 'Retry-After': retryAfter } })
+    })
   } catch (error) {
     console.error('Proxy error:', error)
     return NextResponse.json(
@@ -79,57 +90,30 @@ export async function POST(
   }
 }
 
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) {
+  return forwardToVapi(request, params, 'POST')
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { path: string[] } }
 ) {
-  try {
-    // Extract user's API key from header
-    const userApiKey = request.headers.get('x-vapi-key')
-    
-    // Validate API key format - Vapi uses UUIDs
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
-    if (!userApiKey || !uuidRegex.test(userApiKey)) {
-      return NextResponse.json(
-        { error: 'Invalid API key format - should be a UUID' },
-        { status: 400 }
-      )
-    }
-    
-    // Rate limiting per IP
-    const clientIp = request.headers.get('x-forwarded-for') || 'unknown'
-    if (isRateLimited(clientIp)) {
-      return NextResponse.json(
-        { error: 'Too many requests. Please wait a moment.' },
-        { status: 429 }
-      )
-    }
-    
-    // Get the path from params
-    const path = params.path?.join('/') || ''
-    
-    // Forward request to Vapi
-    const vapiResponse = await fetch(
-      `https://api.vapi.ai/${path}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${userApiKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    )
-    
-    // Get response data
-    const data = await vapiResponse.json()
-    
-    // Return Vapi response with same status
-    return NextResponse.json(data, { status: vapiResponse.status })
-  } catch (error) {
-    console.error('Proxy error:', error)
-    return NextResponse.json(
-      { error: 'Failed to process request' },
-      { status: 500 }
-    )
-  }
+  return forwardToVapi(request, params, 'GET')
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) {
+  return forwardToVapi(request, params, 'PATCH')
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) {
+  return forwardToVapi(request, params, 'DELETE')
 }
\ No newline at end of file
@@ -1,46 +1,174 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useMemo, useRef, useEffect } from 'react'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { FileUpload } from '@/components/FileUpload'
 import { FieldMapper } from '@/components/FieldMapper'
+import { SheetPicker } from '@/components/SheetPicker'
+import { ParseOptionsPanel } from '@/components/ParseOptionsPanel'
+import { SuppressionListManager } from '@/components/SuppressionListManager'
+import { WavePreview } from '@/components/WavePreview'
+import { DuplicateReview } from '@/components/DuplicateReview'
+import { InvalidRowEditor } from '@/components/InvalidRowEditor'
 import { ProgressTracker, ProgressStep } from '@/components/ProgressTracker'
+import { CancelledUpload, PartialCampaign } from '@/components/CancelledUpload'
+import { UnfinishedUpload } from '@/components/UnfinishedUpload'
 import { ResultSummary } from '@/components/ResultSummary'
-import { parseFile, detectColumns, extractDataByColumns } from '@/lib/fileParser'
-import { validateAndCleanData } from '@/lib/dataValidator'
-import { VapiClient, Assistant, Workflow, PhoneNumber } from '@/lib/vapiClient'
+import { ResourceCombobox, ResourceOption } from '@/components/ResourceCombobox'
+import { CampaignBrowser } from '@/components/CampaignBrowser'
+import { parseFile, detectColumns, isDelimitedFile, ParsedData, ColumnDetection, ColumnMapping, FileFormat } from '@/lib/fileParser'
+import { finalizeValidation, indexValidation, updateValidatedRow, updateDuplicateChoice, revalidateRow, isCorrectable, RowValidation, RowCorrection, LineTypePolicy, ValidationIndex, ValidationOptions, ValidationResult, ValidatedLead } from '@/lib/dataValidator'
+import { DuplicateOptions, DuplicateStrategy, DUPLICATE_STRATEGY_LABELS } from '@/lib/duplicates'
+import { getCountryOptions } from '@/lib/phoneFormatter'
+import { getActiveSuppressionSets } from '@/lib/suppressionLists'
+import { checkCallingWindow, mergeCallingWindowChecks, CallingWindow, DEFAULT_CALLING_WINDOW } from '@/lib/timezone'
+import { planWaves, getWaveErrors, getWaveCampaignName, defaultWaveSettings, CampaignWave, WaveSettings } from '@/lib/campaignWaves'
+import { getScheduleErrors, getScheduleStart, toSchedulePlan, defaultSchedule, getBrowserTimezone, CampaignSchedule, SCHEDULE_TIMEZONES } from '@/lib/campaignSchedule'
+import { VapiError, VapiErrorKind } from '@/lib/vapiError'
+import { loadRecentResources, markResourcesUsed, emptyRecentResources, RecentResources, ResourceKind } from '@/lib/recentResources'
+import { VapiClient, Assistant, Workflow, PhoneNumber, Campaign, SchedulePlan, CAMPAIGN_BATCH_SIZE, ListCursor, ListPage, DEFAULT_RETRY_OPTIONS } from '@/lib/vapiClient'
+import { createUploadJob, recordCampaignRequest, recordUploadBatch, getSentBatches, getFailedBatches, isCampaignUploaded, storeUploadJob, saveUploadJob, loadUnfinishedUploadJob, loadUploadJobLeads, deleteUploadJob, UploadJob, FailedBatch } from '@/lib/uploadJobs'
 import { ChunkProcessor } from '@/lib/chunkProcessor'
-import { Eye, EyeOff, AlertCircle, CheckCircle2, Info, XCircle, Sparkles, Upload, Settings, Phone, Users, GitBranch } from 'lucide-react'
+import { isAbortError } from '@/lib/abort'
+import { ValidateContext } from '@/lib/workerTasks'
+import { CountryCode } from 'libphonenumber-js'
+import { getAssistantPlaceholders, countMissingValues } from '@/lib/placeholders'
+import { Eye, EyeOff, AlertCircle, CheckCircle2, Info, XCircle, Sparkles, Upload, Settings, Phone, Users, GitBranch, ListChecks } from 'lucide-react'
 
-type AppState = 'input' | 'mapping' | 'processing' | 'complete'
+type AppState = 'input' | 'mapping' | 'corrections' | 'duplicates' | 'review' | 'processing' | 'complete' | 'cancelled' | 'campaigns'
+
+// Listed first in the default country picker
+const COMMON_COUNTRIES: CountryCode[] = ['US', 'CA', 'GB', 'AU']
+
+const LINE_TYPE_OPTIONS: Array<{ key: keyof LineTypePolicy; label: string; hint?: string }> = [
+  { key: 'excludePremiumRate', label: 'Exclude premium-rate numbers' },
+  { key: 'excludeTollFree', label: 'Exclude toll-free numbers' },
+  {
+    key: 'mobileOnly',
+    label: 'Mobile numbers only',
+    hint: 'US and Canadian numbers are kept, as their landlines and mobiles share the same ranges'
+  }
+]
 type AlertType = 'error' | 'success' | 'info' | 'warning'
 
+// What went wrong and what to do about it, per kind of failed Vapi request
+const VAPI_ERROR_ALERTS: Record<VapiErrorKind, { problem: string; action: string }> = {
+  'unauthorized': {
+    problem: 'Vapi rejected the API key',
+    action: 'Check that you entered your private API key from the Vapi dashboard'
+  },
+  'forbidden': {
+    problem: 'The API key is not allowed to do this',
+    action: 'Use a private key of an account with access to these resources'
+  },
+  'not-found': {
+    problem: 'Vapi could not find it',
+    action: 'It may have been deleted - reload your resources and try again'
+  },
+  'rate-limited': {
+    problem: 'Too many requests to Vapi',
+    action: 'Wait a moment and try again'
+  },
+  'invalid-request': {
+    problem: 'Vapi rejected the request',
+    action: 'Check the details below and your campaign settings'
+  },
+  'server': {
+    problem: 'Vapi is having problems',
+    action: 'Try again in a few minutes'
+  },
+  'network': {
+    problem: 'Could not reach Vapi',
+    action: 'Check your internet connection and try again'
+  }
+}
+
 interface AlertMessage {
   type: AlertType
   message: string
   details?: string
 }
 
+// A sheet of an uploaded file; CSV files contribute exactly one
+type LeadSource = ParsedData & {
+  key: string
+  fileName: string
+  detections: ColumnDetection[]
+}
+
+// Validated leads waiting for their campaigns to be created
+interface ValidatedRun {
+  validation: ValidationResult
+  missingVariables: Record<string, number>
+  // Per-row results and options, kept so corrections and duplicate choices can be re-applied
+  rows?: RowValidation[]
+  options?: ValidationOptions
+  // Set when leads are split into one scheduled campaign per timezone
+  waves?: CampaignWave[]
+}
+
+interface CreatedCampaign {
+  name: string
+  campaignId: string
+  leads: number
+  timezone?: string
+  startsAt?: string
+}
+
+// What had been created when the user cancelled the upload
+interface CancelledRun {
+  completed: CreatedCampaign[]
+  partial?: PartialCampaign
+  partialDeleted?: boolean
+}
+
+interface UploadedFile {
+  id: number
+  file: File
+  // Display name, made unique when two uploads share a file name
+  name: string
+  // Format settings chosen in the parse options panel; the rest is detected
+  overrides: Partial<FileFormat>
+  sources: LeadSource[]
+}
+
 export default function Home() {
   const [appState, setAppState] = useState<AppState>('input')
   const [apiKey, setApiKey] = useState('')
   const [apiKeyValid, setApiKeyValid] = useState<boolean | null>(null)
   const [showApiKey, setShowApiKey] = useState(false)
   const [campaignName, setCampaignName] = useState('')
-  const [file, setFile] = useState<File | null>(null)
-  const [parsedData, setParsedData] = useState<any>(null)
-  const [columnMapping, setColumnMapping] = useState<any>(null)
+  const [files, setFiles] = useState<File[]>([])
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
+  const [selectedSources, setSelectedSources] = useState<string[]>([])
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>({})
+  // Region for numbers without a +country prefix, unless a row's country column says otherwise
+  const [defaultCountry, setDefaultCountry] = useState<CountryCode>('US')
+  const [lineTypePolicy, setLineTypePolicy] = useState<LineTypePolicy>({})
+  // Allowed local calling hours, checked against each lead's inferred timezone
+  const [callingWindow, setCallingWindow] = useState<CallingWindow>(DEFAULT_CALLING_WINDOW)
+  const [waveSettings, setWaveSettings] = useState<WaveSettings>(defaultWaveSettings)
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>({ strategy: 'first' })
+  // Start (and optional end) of calling for a single campaign; waves set their own
+  const [schedule, setSchedule] = useState<CampaignSchedule>(defaultSchedule)
+  const [pendingRun, setPendingRun] = useState<ValidatedRun | null>(null)
   const [processSteps, setProcessSteps] = useState<ProgressStep[]>([])
   const [progress, setProgress] = useState(0)
   const [result, setResult] = useState<any>(null)
   const [alert, setAlert] = useState<AlertMessage | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  const [cancelledRun, setCancelledRun] = useState<CancelledRun | null>(null)
+  const [deletingPartial, setDeletingPartial] = useState(false)
+  // An upload saved in IndexedDB that didn't finish, offered for resuming
+  const [resumableJob, setResumableJob] = useState<UploadJob | null>(null)
+  // Attempts per batch after the first one fails
+  const [batchRetries, setBatchRetries] = useState(DEFAULT_RETRY_OPTIONS.retries)
   
   // New state for assistants and workflows
   const [assistants, setAssistants] = useState<Assistant[]>([])
@@ -50,6 +178,98 @@ export default function Home() {
   const [selectedId, setSelectedId] = useState<string>('')
   const [selectedPhoneNumberId, setSelectedPhoneNumberId] = useState<string>('')
   const [loadingResources, setLoadingResources] = useState(false)
+  // Where the next page of each list starts; missing once the list is fully loaded
+  const [resourceCursors, setResourceCursors] = useState<Partial<Record<ResourceKind, ListCursor>>>({})
+  const [loadingMoreResources, setLoadingMoreResources] = useState<ResourceKind | null>(null)
+  // Resources used in recent campaigns, pinned to the top of the pickers
+  const [recentResources, setRecentResources] = useState<RecentResources>(emptyRecentResources)
+  // {{placeholders}} in the selected assistant's first message and system prompt
+  const [assistantPlaceholders, setAssistantPlaceholders] = useState<string[]>([])
+
+  const nextFileId = useRef(0)
+  // Aborted by the Cancel button on the processing screen
+  const abortController = useRef<AbortController | null>(null)
+  // Leads of the latest upload, so failed batches can be retried without reading them back
+  const uploadLeads = useRef<{ jobId: string; leads: ValidatedLead[][] } | null>(null)
+  // Lets corrections and duplicate choices update the pending result without finalizing every row again
+  const validationIndex = useRef<{ validation: ValidationResult; index: ValidationIndex } | null>(null)
+
+  const countryOptions = useMemo(() => getCountryOptions(), [])
+  const scheduleTimezones = useMemo(() => {
+    const browserTimezone = getBrowserTimezone()
+    return [browserTimezone, ...SCHEDULE_TIMEZONES.filter(timezone => timezone !== browserTimezone)]
+  }, [])
+  const assistantOptions = useMemo<ResourceOption[]>(() => assistants.map(assistant => ({
+    id: assistant.id,
+    name: assistant.name || `Assistant ${assistant.id.slice(0, 8)}`,
+    createdAt: assistant.createdAt
+  })), [assistants])
+  const workflowOptions = useMemo<ResourceOption[]>(() => workflows.map(workflow => ({
+    id: workflow.id,
+    name: workflow.name || `Workflow ${workflow.id.slice(0, 8)}`,
+    createdAt: workflow.createdAt
+  })), [workflows])
+  const phoneNumberOptions = useMemo<ResourceOption[]>(() => phoneNumbers.map(phoneNumber => ({
+    id: phoneNumber.id,
+    name: phoneNumber.name || phoneNumber.number || phoneNumber.id,
+    ...(phoneNumber.name && { detail: phoneNumber.number }),
+    createdAt: phoneNumber.createdAt
+  })), [phoneNumbers])
+  const allSources = useMemo(() => uploadedFiles.flatMap(u => u.sources), [uploadedFiles])
+  // Selected sources in upload order, which is also the order duplicates are resolved in
+  const sourcesToProcess = allSources.filter(source => selectedSources.includes(source.key))
+
+  // One stable callback per source so FieldMapper's change effect doesn't loop
+  const mappingHandlers = useMemo(() => {
+    const handlers: Record<string, (mapping: ColumnMapping) => void> = {}
+    allSources.forEach(source => {
+      handlers[source.key] = (mapping) => {
+        setColumnMappings(prev => ({ ...prev, [source.key]: mapping }))
+      }
+    })
+    return handlers
+  }, [allSources])
+  const getUnmappedPlaceholders = (source: LeadSource) =>
+    assistantPlaceholders.filter(name =>
+      !columnMappings[source.key]?.variables?.some(variable => variable.name === name)
+    )
+  const mappingComplete = sourcesToProcess.length > 0 &&
+    sourcesToProcess.every(source => columnMappings[source.key]?.phoneColumn) &&
+    sourcesToProcess.every(source => getUnmappedPlaceholders(source).length === 0)
+
+  useEffect(() => {
+    loadUnfinishedUploadJob().then(setResumableJob)
+    setRecentResources(loadRecentResources())
+  }, [])
+
+  useEffect(() => {
+    if (!apiKeyValid || selectedType !== 'assistant' || !selectedId) {
+      setAssistantPlaceholders([])
+      return
+    }
+
+    // Ignore the response if the selection changes while it is in flight
+    let cancelled = false
+    new VapiClient(apiKey).getAssistant(selectedId).then(assistant => {
+      if (!cancelled) setAssistantPlaceholders(getAssistantPlaceholders(assistant))
+    }).catch(error => {
+      if (cancelled) return
+      setAssistantPlaceholders([])
+      // Prompt {{variables}} can't be checked against the columns without the assistant
+      showVapiError('Could not load assistant configuration', error, 'warning')
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [apiKey, apiKeyValid, selectedType, selectedId])
+
+  const getSourceLabel = (source: LeadSource) => {
+    if (uploadedFiles.length > 1) {
+      return source.sheetName ? `${source.fileName} › ${source.sheetName}` : source.fileName
+    }
+    return source.sheetName || source.fileName
+  }
 
   const showAlert = (type: AlertType, message: string, details?: string) => {
     setAlert({ type, message, details })
@@ -59,7 +279,22 @@ export default function Home() {
     }
   }
 
-  const validateApiKey = async () => {
+  // Alerts for a failed Vapi request; other errors keep their own message
+  const showVapiError = (message: string, error: unknown, type: AlertType = 'error') => {
+    if (!(error instanceof VapiError)) {
+      showAlert(type, message, error instanceof Error ? error.message : 'An unexpected error occurred')
+      return
+    }
+    const { problem, action } = VAPI_ERROR_ALERTS[error.kind]
+    const wait = error.kind === 'rate-limited' && error.retryAfterMs
+      ? ` (${Math.ceil(error.retryAfterMs / 1000)}s)`
+      : ''
+    const status = error.status ? `HTTP ${error.status}${error.code ? ` ${error.code}` : ''}: ` : ''
+    showAlert(type, `${message}: ${problem}`, `${action}${wait}. ${status}${error.message}`)
+  }
+
+  // Resources are only loaded again when asked, so starting a run keeps the pages already loaded
+  const validateApiKey = async (loadResources = true) => {
     // Vapi API keys are UUIDs in format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
     if (!uuidRegex.test(apiKey)) {
@@ -73,7 +308,7 @@ export default function Home() {
       const isValid = await client.validateApiKey()
       setApiKeyValid(isValid)
       
-      if (isValid) {
+      if (isValid && loadResources) {
         showAlert('success', 'API key validated successfully')
         
         // Fetch assistants, workflows, and phone numbers
@@ -81,29 +316,33 @@ export default function Home() {
         showAlert('info', 'Loading resources...')
         
         try {
-          const [fetchedAssistants, fetchedWorkflows, fetchedPhoneNumbers] = await Promise.all([
-            client.getAssistants().catch(err => {
-              console.error('Error fetching assistants:', err)
-              return []
-            }),
-            client.getWorkflows().catch(err => {
-              console.error('Error fetching workflows:', err)
-              return []
-            }),
-            client.getPhoneNumbers().catch(err => {
-              console.error('Error fetching phone numbers:', err)
-              return []
-            })
+          // A failure is reported as what it is rather than as an empty account.
+          // Only the first page of each list is loaded; the pickers load more on demand.
+          const [assistantPage, workflowPage, phoneNumberPage] = await Promise.all([
+            client.getAssistants(),
+            client.getWorkflows(),
+            client.getPhoneNumbers()
+          ])
+          const fetchedAssistants = assistantPage.items
+          const fetchedWorkflows = workflowPage.items
+          const fetchedPhoneNumbers = phoneNumberPage.items
+          // Recently used items are pinned even when they aren't on the first page
+          const [pinnedAssistants, pinnedWorkflows, pinnedPhoneNumbers] = await Promise.all([
+            getMissingItems(fetchedAssistants, recentResources.assistant, id => client.getAssistant(id)),
+            getMissingItems(fetchedWorkflows, recentResources.workflow, id => client.getWorkflow(id)),
+            getMissingItems(fetchedPhoneNumbers, recentResources.phoneNumber, id => client.getPhoneNumber(id))
           ])
           
-          setAssistants(fetchedAssistants)
-          setWorkflows(fetchedWorkflows)
-          setPhoneNumbers(fetchedPhoneNumbers)
+          setAssistants(fetchedAssistants.concat(pinnedAssistants))
+          setWorkflows(fetchedWorkflows.concat(pinnedWorkflows))
+          setPhoneNumbers(fetchedPhoneNumbers.concat(pinnedPhoneNumbers))
+          setResourceCursors({ assistant: assistantPage.next, workflow: workflowPage.next, phoneNumber: phoneNumberPage.next })
           setLoadingResources(false)
           
           // Check for required resources
           const hasAssistantsOrWorkflows = fetchedAssistants.length > 0 || fetchedWorkflows.length > 0
           const hasPhoneNumbers = fetchedPhoneNumbers.length > 0
+          const count = (items: unknown[], page: ListPage<unknown>) => `${items.length}${page.next ? '+' : ''}`
           
           if (!hasAssistantsOrWorkflows && !hasPhoneNumbers) {
             showAlert('error', 'Missing required resources', 'You need at least one assistant/workflow AND one phone number in your Vapi account to create campaigns')
@@ -112,47 +351,158 @@ export default function Home() {
           } else if (!hasPhoneNumbers) {
             showAlert('error', 'No phone numbers found', 'Phone numbers are required for campaigns. Please add a phone number in your Vapi account settings before proceeding.')
           } else {
-            showAlert('success', 'Resources loaded', `Found ${fetchedAssistants.length} assistants, ${fetchedWorkflows.length} workflows, and ${fetchedPhoneNumbers.length} phone numbers`)
+            showAlert('success', 'Resources loaded', `Found ${count(fetchedAssistants, assistantPage)} assistants, ${count(fetchedWorkflows, workflowPage)} workflows, and ${count(fetchedPhoneNumbers, phoneNumberPage)} phone numbers`)
           }
         } catch (fetchError) {
           console.error('Error fetching resources:', fetchError)
           setLoadingResources(false)
-          showAlert('warning', 'Could not load all resources', 'Some resources may not be available')
+          // The format check passed, but Vapi itself doesn't accept the key
+          if (fetchError instanceof VapiError && (fetchError.kind === 'unauthorized' || fetchError.kind === 'forbidden')) {
+            setApiKeyValid(false)
+            showVapiError('Could not load your Vapi resources', fetchError)
+            return false
+          }
+          showVapiError('Could not load your Vapi resources', fetchError)
         }
-      } else {
+      } else if (!isValid) {
         showAlert('error', 'API key validation failed', 'Please check your API key and try again')
       }
       return isValid
     } catch (error) {
       console.error('API validation error:', error)
-      showAlert('error', 'Failed to validate API key', 'Network error or server issue')
+      showVapiError('Failed to validate API key', error)
       return false
     }
   }
 
-  const handleFileSelect = async (selectedFile: File) => {
-    setFile(selectedFile)
+  // Appends the next page of one of the resource lists
+  const loadMoreResources = async (kind: ResourceKind) => {
+    const cursor = resourceCursors[kind]
+    if (!cursor || loadingMoreResources) return
+
+    const client = new VapiClient(apiKey)
+    const append = async <T extends { id: string },>(request: Promise<ListPage<T>>, setItems: (update: (prev: T[]) => T[]) => void) => {
+      const page = await request
+      // Pinned items may have been loaded on their own already
+      setItems(prev => prev.concat(page.items.filter(item => !prev.some(existing => existing.id === item.id))))
+      setResourceCursors(prev => ({ ...prev, [kind]: page.next }))
+    }
+
+    setLoadingMoreResources(kind)
+    try {
+      if (kind === 'assistant') {
+        await append(client.getAssistants(cursor), setAssistants)
+      } else if (kind === 'workflow') {
+        await append(client.getWorkflows(cursor), setWorkflows)
+      } else {
+        await append(client.getPhoneNumbers(cursor), setPhoneNumbers)
+      }
+    } catch (error) {
+      showVapiError('Could not load more resources', error)
+    } finally {
+      setLoadingMoreResources(null)
+    }
+  }
+
+  const loadFile = async (
+    file: File,
+    id: number,
+    name: string,
+    overrides: Partial<FileFormat> = {}
+  ): Promise<UploadedFile> => {
+    const data = await parseFile(file, overrides)
+    return {
+      id,
+      file,
+      name,
+      overrides,
+      sources: data.sheets.map((sheet, index) => ({
+        ...sheet,
+        key: `${id}:${index}`,
+        fileName: name,
+        detections: detectColumns(sheet.headers, sheet.sampleRows)
+      }))
+    }
+  }
+
+  const handleFilesChange = async (selectedFiles: File[]) => {
+    setFiles(selectedFiles)
     setAlert(null)
-    
+
+    // Keep already-parsed files; only newly added ones need reading
+    const keptFiles = uploadedFiles.filter(u => selectedFiles.includes(u.file))
+    const keptKeys = keptFiles.flatMap(u => u.sources.map(source => source.key))
+    const newFiles = selectedFiles.filter(f => !uploadedFiles.some(u => u.file === f))
+    setUploadedFiles(keptFiles)
+    setSelectedSources(prev => prev.filter(key => keptKeys.includes(key)))
+
+    if (newFiles.length === 0) return
+
+    const parsed: UploadedFile[] = []
+    const failed: File[] = []
+    showAlert('info', newFiles.length > 1 ? 'Parsing files...' : 'Parsing file...', `Reading ${newFiles.map(f => f.name).join(', ')}`)
+
+    for (const newFile of newFiles) {
+      try {
+        const takenNames = [...keptFiles, ...parsed].map(u => u.name)
+        let name = newFile.name
+        for (let copy = 2; takenNames.includes(name); copy++) {
+          name = `${newFile.name} (${copy})`
+        }
+
+        parsed.push(await loadFile(newFile, nextFileId.current++, name))
+      } catch (err) {
+        failed.push(newFile)
+      }
+    }
+
+    setUploadedFiles([...keptFiles, ...parsed])
+    // Start with the first sheet of each new file that has data; others can be added in the sheet picker
+    setSelectedSources(prev => [
+      ...prev,
+      ...parsed.map(u => u.sources.find(source => source.totalRows > 0)!.key)
+    ])
+
+    if (failed.length > 0) {
+      setFiles(selectedFiles.filter(f => !failed.includes(f)))
+      showAlert('error', 'Failed to parse file', `${failed.map(f => f.name).join(', ')}: please ensure each file is a valid CSV or Excel file with data`)
+    } else if (parsed.length > 1) {
+      const totalRows = parsed.reduce((sum, u) => sum + u.sources.reduce((n, source) => n + source.totalRows, 0), 0)
+      showAlert('success', 'Files parsed successfully', `Found about ${totalRows.toLocaleString()} rows across ${parsed.length} files`)
+    } else if (parsed[0].sources.length > 1) {
+      showAlert('success', 'Workbook parsed successfully', `Found ${parsed[0].sources.length} sheets in ${parsed[0].name} - choose which ones to include`)
+    } else {
+      const source = parsed[0].sources[0]
+      const rowCount = source.totalRowsEstimated
+        ? `about ${source.totalRows.toLocaleString()}`
+        : source.totalRows.toLocaleString()
+      showAlert('success', 'File parsed successfully', `Found ${rowCount} rows with ${source.headers.length} columns`)
+    }
+  }
+
+  const handleFormatChange = async (upload: UploadedFile, overrides: Partial<FileFormat>) => {
     try {
-      showAlert('info', 'Parsing file...', `Reading ${selectedFile.name}`)
-      const data = await parseFile(selectedFile)
-      const detections = detectColumns(data.headers)
-      
-      setParsedData({
-        ...data,
-        detections
+      showAlert('info', 'Re-reading file...', `Applying new format settings to ${upload.name}`)
+      // Same id keeps the file's sheet keys, so the sheet selection survives
+      const reloaded = await loadFile(upload.file, upload.id, upload.name, overrides)
+      setUploadedFiles(prev => prev.map(u => u.id === upload.id ? reloaded : u))
+      setColumnMappings(prev => {
+        const next = { ...prev }
+        reloaded.sources.forEach(source => delete next[source.key])
+        return next
       })
-      showAlert('success', 'File parsed successfully', `Found ${data.totalRows} rows with ${data.headers.length} columns`)
+
+      const source = reloaded.sources[0]
+      showAlert('success', 'File re-read successfully', reloaded.sources.length > 1
+        ? `${reloaded.sources.length} sheets re-read`
+        : `Found ${source.headers.length} columns: ${source.headers.slice(0, 5).join(', ')}${source.headers.length > 5 ? ', ...' : ''}`)
     } catch (err) {
-      showAlert('error', 'Failed to parse file', 'Please ensure the file is a valid CSV or Excel file with data')
-      setFile(null)
-      setParsedData(null)
+      showAlert('error', 'Failed to re-read file', `${upload.name} could not be parsed with these settings`)
     }
   }
 
   const handleStartProcessing = async () => {
-    if (!apiKey || !campaignName || !file) {
+    if (!apiKey || !campaignName || files.length === 0) {
       showAlert('warning', 'Missing required fields', 'Please enter API key, campaign name, and select a file')
       return
     }
@@ -167,6 +517,12 @@ export default function Home() {
       return
     }
 
+    const scheduleErrors = getScheduleErrors(schedule)
+    if (scheduleErrors.length > 0) {
+      showAlert('warning', 'Invalid schedule', scheduleErrors.join('. '))
+      return
+    }
+
     // Show loading state
     setAlert(null)
     setIsProcessing(true)
@@ -174,19 +530,25 @@ export default function Home() {
     try {
       // Validate API key
       showAlert('info', 'Validating API key...')
-      const isValid = await validateApiKey()
+      const isValid = await validateApiKey(false)
       if (!isValid) {
         setIsProcessing(false)
         return
       }
 
-      // Parse file if not already parsed
-      if (!parsedData) {
+      // Parse files if not already parsed
+      if (uploadedFiles.length < files.length) {
         showAlert('warning', 'File is still being processed', 'Please wait for file parsing to complete')
         setIsProcessing(false)
         return
       }
 
+      if (sourcesToProcess.length === 0) {
+        showAlert('warning', 'No sheets selected', 'Please select at least one sheet from the workbook')
+        setIsProcessing(false)
+        return
+      }
+
       // Move to mapping state
       showAlert('success', 'Ready to map columns', 'Please verify the detected columns are correct')
       setAppState('mapping')
@@ -199,8 +561,14 @@ export default function Home() {
   }
 
   const handleProcessData = async () => {
-    if (!columnMapping?.phoneColumn) {
-      showAlert('warning', 'Phone column required', 'Please select which column contains phone numbers')
+    const unmapped = sourcesToProcess.flatMap(getUnmappedPlaceholders)
+    if (unmapped.length > 0) {
+      showAlert('warning', 'Prompt variables not mapped', `The assistant prompt uses ${unmapped.map(name => `{{${name}}}`).join(', ')} - map a column to each one`)
+      return
+    }
+
+    if (!mappingComplete) {
+      showAlert('warning', 'Phone column required', 'Please select which column contains phone numbers for every file and sheet')
       return
     }
 
@@ -210,114 +578,641 @@ export default function Home() {
 
     const steps: ProgressStep[] = [
       { label: 'Extracting data', status: 'in-progress' },
-      { label: 'Validating phone numbers', status: 'pending' },
+      { label: 'Validating phone numbers', status: 'in-progress' },
       { label: 'Removing duplicates', status: 'pending' },
       { label: 'Creating campaign', status: 'pending' },
       { label: 'Uploading leads', status: 'pending' }
     ]
     setProcessSteps(steps)
+    const signal = startCancellable()
+
+    // Validation runs in a pool of Web Workers so the page stays responsive on large files
+    const rowResults: RowValidation[] = []
+    const processor = new ChunkProcessor({
+      chunkSize: 1000,
+      useWebWorker: true,
+      onProgress: (processed) => {
+        steps[1].detail = `${(rowResults.length + processed).toLocaleString()} rows validated`
+        setProcessSteps([...steps])
+      }
+    })
 
     try {
-      const processor = new ChunkProcessor({
-        chunkSize: 1000,
-        useWebWorker: parsedData.totalRows > 10000,
-        onProgress: (processed, total) => {
-          setProgress(Math.round((processed / total) * 20))
-        }
-      })
+      const options: ValidationOptions = {
+        defaultCountry,
+        lineTypePolicy,
+        suppressionLists: getActiveSuppressionSets(),
+        duplicates: duplicateOptions
+      }
 
-      // Step 1: Extract data
-      const extractedData = extractDataByColumns(
-        parsedData.rows,
-        columnMapping.phoneColumn,
-        columnMapping.nameColumn,
-        columnMapping.emailColumn
-      )
+      // Step 1-2: Stream rows out of each selected file/sheet and validate each chunk as it arrives
+      let totalRows = 0
+      for (let position = 0; position < sourcesToProcess.length; position++) {
+        const source = sourcesToProcess[position]
+        const mapping = columnMappings[source.key]
+
+        totalRows += await source.readRows(async (rows, fileProgress) => {
+          const context: ValidateContext = {
+            mapping,
+            startIndex: fileProgress.rowsRead - rows.length,
+            source: { file: source.fileName, sheet: source.sheetName },
+            options: { defaultCountry, lineTypePolicy }
+          }
+          const chunkResults = await processor.processTask<RowValidation>('validate', rows, context, signal)
+          rowResults.push(...chunkResults)
+
+          const sheetFraction = fileProgress.bytesRead / fileProgress.totalBytes
+          const percentRead = Math.round(((position + sheetFraction) / sourcesToProcess.length) * 100)
+          const sheetLabel = sourcesToProcess.length > 1 ? `${getSourceLabel(source)}: ` : ''
+          steps[0].detail = `${sheetLabel}${fileProgress.rowsRead.toLocaleString()} rows read (${percentRead}%)`
+          setProcessSteps([...steps])
+          setProgress(Math.round(percentRead * 0.4))
+        }, 10000, signal)
+      }
 
       steps[0].status = 'completed'
-      steps[0].detail = `${extractedData.length} rows extracted`
-      steps[1].status = 'in-progress'
+      steps[0].detail = sourcesToProcess.length > 1
+        ? `${totalRows.toLocaleString()} rows extracted from ${sourcesToProcess.length} ${uploadedFiles.length > 1 ? 'sources' : 'sheets'}`
+        : `${totalRows.toLocaleString()} rows extracted`
       setProcessSteps([...steps])
-      setProgress(20)
-
-      // Step 2-3: Validate and clean data
-      const validationResult = await processor.processData(
-        [extractedData],
-        async (chunk) => {
-          const result = validateAndCleanData(chunk[0])
-          return [result]
-        }
-      )
 
-      const validation = validationResult[0]
-      
+      // Step 3: Drop do-not-call numbers and resolve duplicates across all files
+      steps[2].status = 'in-progress'
+      setProcessSteps([...steps])
+      // Kept on the main thread, as sending every row to a worker and back would double their memory
+      const validation = finalizeValidation(rowResults, options)
+      const missingVariables = countMissingValues(validation.valid, assistantPlaceholders)
+
       steps[1].status = 'completed'
-      steps[1].detail = `${validation.valid.length} valid numbers`
       steps[2].status = 'completed'
-      steps[2].detail = `${validation.duplicates} duplicates removed`
-      steps[3].status = 'in-progress'
+      describeValidation(steps, validation, missingVariables)
       setProcessSteps([...steps])
       setProgress(40)
+      processor.destroy()
+
+      // Typos can be fixed in place, and duplicate choices checked, before anything is created
+      if (rowResults.some(isCorrectable)) {
+        setPendingRun({ validation, missingVariables, rows: rowResults, options })
+        setAppState('corrections')
+        return
+      }
+      if (validation.duplicateGroups.length > 0) {
+        setPendingRun({ validation, missingVariables, rows: rowResults, options })
+        setAppState('duplicates')
+        return
+      }
+
+      await continueRun({ validation, missingVariables }, steps)
+    } catch (err) {
+      if (isAbortError(err)) {
+        showAlert('info', 'Processing cancelled', 'No campaign was created')
+        setAppState('mapping')
+        return
+      }
+      showVapiError('Failed to create campaign', err)
+      setAppState('input')
+    } finally {
+      processor.destroy()
+      setIsProcessing(false)
+    }
+  }
+
+  // Each stage shown on the processing screen can be cancelled on its own
+  const startCancellable = () => {
+    abortController.current = new AbortController()
+    setCancelling(false)
+    return abortController.current.signal
+  }
+
+  const handleCancel = () => {
+    abortController.current?.abort()
+    setCancelling(true)
+  }
+
+  const handleDeletePartial = async () => {
+    const partial = cancelledRun?.partial
+    if (!partial || !confirm(`Delete the campaign "${partial.name}" and the leads already uploaded to it?`)) return
+
+    setDeletingPartial(true)
+    try {
+      await new VapiClient(apiKey).deleteCampaign(partial.campaignId)
+      setCancelledRun(prev => prev && { ...prev, partialDeleted: true })
+      showAlert('success', 'Partial campaign deleted', partial.name)
+    } catch (error) {
+      // Already gone, e.g. deleted from the Vapi dashboard
+      if (error instanceof VapiError && error.kind === 'not-found') {
+        setCancelledRun(prev => prev && { ...prev, partialDeleted: true })
+        showAlert('info', 'The partial campaign no longer exists', partial.name)
+      } else {
+        showVapiError(`Failed to delete ${partial.campaignId}`, error)
+      }
+    } finally {
+      setDeletingPartial(false)
+    }
+  }
+
+  const describeValidation = (steps: ProgressStep[], validation: ValidationResult, missingVariables: Record<string, number>) => {
+    steps[1].detail = Object.keys(missingVariables).length > 0
+      ? `${validation.valid.length} valid numbers, some with empty prompt variables`
+      : `${validation.valid.length} valid numbers`
+    const duplicateDetail = `${validation.duplicates} duplicates ${duplicateOptions.strategy === 'merge' ? 'merged' : 'removed'}`
+    steps[2].detail = validation.suppressed.length > 0
+      ? `${duplicateDetail}, ${validation.suppressed.length} on do-not-call lists`
+      : duplicateDetail
+  }
+
+  // Stores a result updated after a row has been corrected or a duplicate choice changed.
+  // Only the rows involved are finalized again, so a recheck stays quick on large files.
+  // Built again whenever the pending result didn't come from an update below
+  const getValidationIndex = (validation: ValidationResult, rows: RowValidation[], options: ValidationOptions) => {
+    if (validationIndex.current?.validation !== validation) {
+      validationIndex.current = { validation, index: indexValidation(validation, rows, options) }
+    }
+    return validationIndex.current.index
+  }
+
+  const updatePendingValidation = (validation: ValidationResult, options: ValidationOptions, rows?: RowValidation[]) => {
+    if (validationIndex.current) validationIndex.current.validation = validation
+    setPendingRun(prev => prev && {
+      ...prev,
+      options,
+      validation,
+      ...(rows && { rows }),
+      missingVariables: countMissingValues(validation.valid, assistantPlaceholders)
+    })
+  }
+
+  const handleRevalidateRow = (position: number, correction: RowCorrection) => {
+    if (!pendingRun?.rows || !pendingRun.options) return
+    const { validation, rows, options } = pendingRun
+    const row = revalidateRow(rows[position], correction, options)
+    const updated = updateValidatedRow(validation, rows, getValidationIndex(validation, rows, options), position, row, options)
+    updatePendingValidation(updated.validation, options, updated.rows)
+  }
+
+  const handleConfirmCorrections = async () => {
+    if (pendingRun?.validation.duplicateGroups.length) {
+      setAppState('duplicates')
+      return
+    }
+    await handleConfirmRun()
+  }
+
+  // Waves need a review of their own; otherwise the campaign is created straight away
+  const continueRun = async (run: ValidatedRun, steps: ProgressStep[]) => {
+    // Suppression, duplicates and invalid rows can leave nothing to call
+    if (run.validation.valid.length === 0) {
+      const { totalRows, invalidRows, duplicateRows, suppressedRows } = run.validation.summary
+      setPendingRun(null)
+      setAppState('mapping')
+      showAlert(
+        'error',
+        'No valid leads to upload',
+        `All ${totalRows.toLocaleString()} rows were left out: ${invalidRows.toLocaleString()} invalid, ${duplicateRows.toLocaleString()} duplicates, ${suppressedRows.toLocaleString()} on do-not-call lists. No campaign was created.`
+      )
+      return
+    }
+
+    if (waveSettings.enabled) {
+      // Nothing is created until the user has reviewed the waves
+      setPendingRun({
+        validation: run.validation,
+        missingVariables: run.missingVariables,
+        waves: planWaves(run.validation.valid, waveSettings, callingWindow, getBrowserTimezone())
+      })
+      setAppState('review')
+      return
+    }
+
+    await createCampaigns(run, steps)
+  }
+
+  const handleKeepDuplicate = (groupId: number, position: number) => {
+    if (!pendingRun?.rows || !pendingRun.options) return
+    const duplicates = pendingRun.options.duplicates || {}
+    const options = {
+      ...pendingRun.options,
+      duplicates: { ...duplicates, overrides: { ...duplicates.overrides, [groupId]: position } }
+    }
+    const index = getValidationIndex(pendingRun.validation, pendingRun.rows, pendingRun.options)
+    updatePendingValidation(updateDuplicateChoice(pendingRun.validation, pendingRun.rows, index, groupId, options), options)
+  }
+
+  // Continues a run held for corrections or duplicate review
+  const handleConfirmRun = async () => {
+    if (!pendingRun) return
+
+    setAppState('processing')
+    setIsProcessing(true)
+    setAlert(null)
+    const steps = processSteps.map(step => ({ ...step }))
+    describeValidation(steps, pendingRun.validation, pendingRun.missingVariables)
+    setProcessSteps(steps)
+    startCancellable()
+
+    try {
+      await continueRun(pendingRun, steps)
+    } catch (err) {
+      showVapiError('Failed to create campaign', err)
+      setAppState('input')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleConfirmWaves = async () => {
+    if (!pendingRun) return
+
+    setAppState('processing')
+    setIsProcessing(true)
+    setAlert(null)
+    const steps = processSteps.map(step => ({ ...step }))
+    startCancellable()
+
+    try {
+      await createCampaigns(pendingRun, steps)
+    } catch (err) {
+      showVapiError('Failed to create campaigns', err)
+      setAppState('input')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  // Step 4-5: Create the campaign (or one per timezone wave) and upload leads
+  const createCampaigns = async (run: ValidatedRun, steps: ProgressStep[]) => {
+    const { validation, missingVariables, waves } = run
+    const missingVariableNames = Object.keys(missingVariables)
+
+    // Time has passed since the setup step, so the start may no longer be in the future
+    const scheduleErrors = waves ? getWaveErrors(waves) : getScheduleErrors(schedule)
+    if (scheduleErrors.length > 0) {
+      setAppState(waves ? 'review' : 'input')
+      showAlert('error', 'Invalid schedule', `${scheduleErrors.join('. ')}. No campaign was created.`)
+      return
+    }
+
+    const scheduleStart = getScheduleStart(schedule)
+    const schedulePlan = toSchedulePlan(schedule)
+    const plans: Array<{
+      name: string
+      leads: ValidatedLead[]
+      timezone?: string
+      startsAt?: Date
+      schedulePlan?: SchedulePlan
+    }> = waves
+      ? waves.map(wave => ({
+          name: getWaveCampaignName(campaignName, wave),
+          leads: wave.leads,
+          timezone: wave.timezone,
+          startsAt: wave.earliestAt,
+          schedulePlan: {
+            earliestAt: wave.earliestAt.toISOString(),
+            ...(wave.latestAt && { latestAt: wave.latestAt.toISOString() })
+          }
+        }))
+      : [{ name: campaignName, leads: validation.valid, startsAt: scheduleStart, schedulePlan }]
+
+    // Check each lead's local time at the moment its campaign starts calling
+    const windowCheck = mergeCallingWindowChecks(plans.map(plan =>
+      checkCallingWindow(plan.leads, callingWindow, plan.startsAt || new Date())
+    ))
+
+    if (callingWindow.mode === 'block' && windowCheck.outsideCount > 0) {
+      setAppState(waves ? 'review' : 'mapping')
+      showAlert(
+        'error',
+        `${windowCheck.outsideCount.toLocaleString()} leads are outside the ${callingWindow.start}-${callingWindow.end} calling window`,
+        `${describeTimezones(windowCheck.outside)}. No campaign was created - change the start time or the calling window.`
+      )
+      return
+    }
+
+    const leads = plans.map(plan => plan.leads)
+    const job = createUploadJob(
+      plans.map(plan => ({
+        name: plan.name,
+        leads: plan.leads,
+        ...(plan.timezone && { timezone: plan.timezone }),
+        ...(plan.startsAt && { startsAt: plan.startsAt.toISOString() }),
+        ...(plan.schedulePlan && { schedulePlan: plan.schedulePlan })
+      })),
+      {
+        assistantId: selectedType === 'assistant' ? selectedId : undefined,
+        workflowId: selectedType === 'workflow' ? selectedId : undefined,
+        phoneNumberId: selectedPhoneNumberId,
+        summary: validation.summary
+      }
+    )
+    await storeUploadJob(job, leads)
+    // From here on the saved job, not the reviewed run, is what gets uploaded
+    setPendingRun(null)
+    setRecentResources(markResourcesUsed({ [selectedType]: selectedId, phoneNumber: selectedPhoneNumberId }))
+
+    const upload = await uploadCampaigns(job, leads, steps)
+    if (!upload) return
+    const { campaigns, failedBatches } = upload
+
+    setResult({
+      success: failedBatches.length === 0,
+      partial: failedBatches.length > 0,
+      failedBatches,
+      campaignId: campaigns[0].campaignId,
+      campaigns,
+      ...validation.summary,
+      byFile: validation.byFile,
+      byRegion: validation.byRegion,
+      byLineType: validation.byLineType,
+      bySuppressionList: validation.bySuppressionList,
+      suppressed: validation.suppressed,
+      byTimezone: validation.byTimezone,
+      windowCheck,
+      ...(!waves && schedulePlan && {
+        schedule: { startsAt: schedulePlan.earliestAt, endsAt: schedulePlan.latestAt, timezone: schedule.timezone }
+      }),
+      missingVariables,
+      errors: validation.invalid
+    })
+
+    setAppState('complete')
+    const warnings: string[] = []
+    if (failedBatches.length > 0) {
+      warnings.push(describeFailedBatches(failedBatches))
+    }
+    if (missingVariableNames.length > 0) {
+      warnings.push(`Empty prompt variables: ${
+        missingVariableNames.map(name => `{{${name}}}: ${missingVariables[name].toLocaleString()} leads`).join(', ')
+      }`)
+    }
+    if (windowCheck.outsideCount > 0) {
+      warnings.push(`${windowCheck.outsideCount.toLocaleString()} leads are outside the ${callingWindow.start}-${callingWindow.end} calling window (${describeTimezones(windowCheck.outside)})`)
+    }
+    if (windowCheck.unknownCount > 0) {
+      warnings.push(`${windowCheck.unknownCount.toLocaleString()} leads have an unknown timezone - map a state or timezone column to check them`)
+    }
+
+    const created = plans.length > 1 ? `${plans.length} campaigns created` : 'Campaign created'
+    if (failedBatches.length > 0) {
+      showAlert('error', `${created}, but some leads were not uploaded`, warnings.join('. '))
+    } else if (warnings.length > 0) {
+      showAlert('warning', `${created}, with warnings`, warnings.join('. '))
+    } else {
+      showAlert('success', `${created} successfully!`, `${validation.valid.length} leads uploaded`)
+    }
+  }
+
+  // Creates each campaign of the job and uploads its leads, saving every batch Vapi
+  // confirms so the upload can be resumed after a reload. Returns null when cancelled.
+  const uploadCampaigns = async (
+    initialJob: UploadJob,
+    leads: ValidatedLead[][],
+    steps: ProgressStep[]
+  ): Promise<{ campaigns: CreatedCampaign[]; failedBatches: FailedBatch[] } | null> => {
+    let job = initialJob
+    const plans = job.campaigns
+    uploadLeads.current = { jobId: job.id, leads }
+
+    steps[3].label = plans.length > 1 ? `Creating ${plans.length} campaigns` : 'Creating campaign'
+    steps[3].status = 'in-progress'
+    setProcessSteps([...steps])
+
+    const client = new VapiClient(apiKey, { retries: batchRetries })
+    const campaigns: CreatedCampaign[] = []
+    const signal = abortController.current?.signal
+
+    for (let i = 0; i < plans.length; i++) {
+      // A request that went unanswered may have created the campaign, which the resumed upload continues
+      if (job.campaigns[i].requestedAt && !job.campaigns[i].campaignId) {
+        let existing: Campaign | undefined
+        try {
+          existing = await client.findCampaign(job.campaigns[i].name, job.campaigns[i].requestedAt!)
+        } catch (error) {
+          setResumableJob(job)
+          throw error
+        }
+        if (existing) {
+          job = recordUploadBatch(job, i, existing.id, {
+            batchNumber: 1,
+            success: true,
+            leadsProcessed: Math.min(job.campaigns[i].leadCount, CAMPAIGN_BATCH_SIZE)
+          })
+          await saveUploadJob(job)
+        }
+      }
+
+      const plan = job.campaigns[i]
+      const created = {
+        name: plan.name,
+        leads: plan.leadCount,
+        ...(plan.timezone && { timezone: plan.timezone }),
+        ...(plan.startsAt && { startsAt: plan.startsAt })
+      }
+      // Finished before the upload was interrupted
+      if (isCampaignUploaded(plan)) {
+        campaigns.push({ ...created, campaignId: plan.campaignId! })
+        continue
+      }
+
+      const campaignLabel = plans.length > 1 ? `Campaign ${i + 1} of ${plans.length}: ` : ''
+      if (plans.length > 1) {
+        steps[3].detail = `${campaignLabel}${plan.name}`
+        setProcessSteps([...steps])
+      }
+      if (!plan.campaignId && !plan.requestedAt) {
+        job = recordCampaignRequest(job, i)
+        await saveUploadJob(job)
+      }
 
-      // Step 4-5: Create campaign and upload leads
-      const client = new VapiClient(apiKey)
       const campaignResult = await client.createCampaign(
-        campaignName,
-        validation.valid,
-        selectedType === 'assistant' ? selectedId : undefined,
-        selectedType === 'workflow' ? selectedId : undefined,
-        selectedPhoneNumberId,
+        plan.name,
+        leads[i],
+        job.assistantId,
+        job.workflowId,
+        job.phoneNumberId,
         (batch: number, total: number) => {
-          const batchProgress = 40 + Math.round((batch / total) * 60)
+          const batchProgress = 40 + Math.round(((i + batch / total) / plans.length) * 60)
           setProgress(batchProgress)
           steps[4].status = 'in-progress'
-          steps[4].detail = `Batch ${batch} of ${total}`
+          steps[4].detail = `${campaignLabel}Batch ${batch} of ${total}`
           setProcessSteps([...steps])
+        },
+        plan.schedulePlan,
+        signal,
+        plan.campaignId ? { campaignId: plan.campaignId, sentBatches: getSentBatches(plan) } : undefined,
+        async (batch, campaignId) => {
+          job = recordUploadBatch(job, i, campaignId, batch)
+          await saveUploadJob(job)
         }
       )
 
-      if (campaignResult.success) {
-        steps[3].status = 'completed'
-        steps[4].status = 'completed'
-        steps[4].detail = `${validation.valid.length} leads uploaded`
-        setProcessSteps([...steps])
-        setProgress(100)
-
-        setResult({
-          success: true,
-          campaignId: campaignResult.campaignId,
-          ...validation.summary,
-          errors: validation.invalid
-        })
-      } else {
-        throw new Error(campaignResult.error || 'Failed to create campaign')
+      if (campaignResult.cancelled) {
+        // Cancelling ends the job; what was sent is reported on the cancelled screen
+        await deleteUploadJob(job.id)
+        const partial = campaignResult.campaignId && campaignResult.details
+          ? {
+              name: plan.name,
+              campaignId: campaignResult.campaignId,
+              totalLeads: plan.leadCount,
+              totalBatches: campaignResult.details.totalBatches,
+              batches: campaignResult.details.batches
+            }
+          : undefined
+        if (!partial && campaigns.length === 0) {
+          showAlert('info', 'Processing cancelled', 'No campaign was created')
+          setAppState('mapping')
+          return null
+        }
+        setCancelledRun({ completed: campaigns, partial })
+        setAppState('cancelled')
+        showAlert(
+          'warning',
+          'Upload cancelled',
+          partial
+            ? `${partial.batches.length} of ${partial.totalBatches} batches were sent to ${partial.name}`
+            : `${campaigns.length} of ${plans.length} campaigns were created`
+        )
+        return null
       }
 
-      processor.destroy()
+      // A partial campaign exists; its failed batches are reported once every campaign is done
+      if (!campaignResult.success && !campaignResult.partial) {
+        // Kept for resuming, as a create request that got no answer may still have created the campaign
+        setResumableJob(job)
+        // Campaigns created before this one stay listed in the unfinished upload banner
+        throw campaignResult.error || new Error('Failed to create campaign')
+      }
+
+      campaigns.push({ ...created, campaignId: campaignResult.campaignId! })
+    }
+
+    steps[3].status = 'completed'
+    steps[3].detail = plans.length > 1 ? `${plans.length} campaigns created` : undefined
+    steps[4].status = 'completed'
+
+    // Batches Vapi rejected can still be sent by retrying or resuming the job
+    const failedBatches = getFailedBatches(job, leads)
+    if (failedBatches.length === 0) {
+      await deleteUploadJob(job.id)
+      steps[4].detail = `${job.summary.validRows} leads uploaded`
+    } else {
+      setResumableJob(job)
+      steps[4].status = 'error'
+      steps[4].detail = describeFailedBatches(failedBatches)
+    }
+    setProcessSteps([...steps])
+    setProgress(100)
+    return { campaigns, failedBatches }
+  }
+
+  const describeFailedBatches = (failedBatches: FailedBatch[]) => {
+    const failedLeads = failedBatches.reduce((sum, batch) => sum + batch.leads.length, 0)
+    return `${failedLeads.toLocaleString()} leads in ${failedBatches.length} ${failedBatches.length === 1 ? 'batch' : 'batches'} could not be uploaded`
+  }
+
+  // Sends the batches of the saved upload that Vapi hasn't confirmed, either after a
+  // reload or to retry failed batches from the result screen, which keeps its details
+  const handleResumeJob = async (fromResult = false) => {
+    // The banner only enables resuming once the API key is valid
+    if (!resumableJob || !apiKeyValid) return
+
+    const job = resumableJob
+    const leads = uploadLeads.current?.jobId === job.id
+      ? uploadLeads.current.leads
+      : await loadUploadJobLeads(job.id)
+    if (!leads) {
+      showAlert('error', 'Could not load the saved leads', 'Discard the unfinished upload and start again')
+      return
+    }
+
+    setResumableJob(null)
+    setAppState('processing')
+    setIsProcessing(true)
+    setAlert(null)
+    // Validation finished before the upload was interrupted
+    const steps: ProgressStep[] = [
+      { label: 'Extracting data', status: 'completed' },
+      { label: 'Validating phone numbers', status: 'completed' },
+      { label: 'Removing duplicates', status: 'completed' },
+      { label: 'Creating campaign', status: 'pending' },
+      { label: 'Uploading leads', status: 'pending' }
+    ]
+    setProcessSteps(steps)
+    setProgress(40)
+    startCancellable()
+
+    try {
+      const upload = await uploadCampaigns(job, leads, steps)
+      if (!upload) return
+      const { campaigns, failedBatches } = upload
+
+      setResult((prev: any) => ({
+        ...(fromResult ? prev : job.summary),
+        success: failedBatches.length === 0,
+        partial: failedBatches.length > 0,
+        failedBatches,
+        campaignId: campaigns[0].campaignId,
+        campaigns
+      }))
       setAppState('complete')
-      showAlert('success', 'Campaign created successfully!', `${validation.valid.length} leads uploaded`)
+      if (failedBatches.length > 0) {
+        showAlert('error', 'Some batches failed again', describeFailedBatches(failedBatches))
+      } else {
+        showAlert('success', 'Upload finished', `${job.summary.validRows} leads uploaded`)
+      }
     } catch (err) {
-      showAlert('error', 'Failed to create campaign', err instanceof Error ? err.message : 'An unexpected error occurred')
-      setAppState('input')
+      showVapiError('Failed to resume the upload', err)
+      setAppState(fromResult ? 'complete' : 'input')
     } finally {
       setIsProcessing(false)
     }
   }
 
+  const handleDiscardJob = async () => {
+    if (!resumableJob) return
+    const created = resumableJob.campaigns.filter(campaign => campaign.campaignId)
+    const message = created.length > 0
+      ? `Discard the unfinished upload? Leads already sent stay in ${created.map(campaign => `"${campaign.name}"`).join(', ')} on Vapi.`
+      : 'Discard the unfinished upload?'
+    if (!confirm(message)) return
+
+    await deleteUploadJob(resumableJob.id)
+    setResumableJob(null)
+  }
+
   const handleDownloadReport = () => {
     if (!result) return
 
     const report = {
       campaignName,
       campaignId: result.campaignId,
+      campaigns: result.campaigns,
       timestamp: new Date().toISOString(),
+      sources: sourcesToProcess.map(source => ({
+        file: source.fileName,
+        ...(source.sheetName && { sheet: source.sheetName })
+      })),
       summary: {
         totalRows: result.totalRows,
         validLeads: result.validRows,
         invalidLeads: result.invalidRows,
-        duplicates: result.duplicateRows
+        duplicates: result.duplicateRows,
+        suppressed: result.suppressedRows
       },
-      errors: result.errors
+      files: result.byFile,
+      defaultCountry,
+      regions: result.byRegion,
+      lineTypePolicy,
+      lineTypes: result.byLineType,
+      duplicateHandling: duplicateOptions,
+      callingWindow,
+      schedule: result.schedule,
+      timezones: result.byTimezone,
+      outsideCallingWindow: result.windowCheck?.outside,
+      missingVariables: result.missingVariables,
+      suppressionLists: result.bySuppressionList,
+      suppressed: result.suppressed,
+      errors: result.errors,
+      failedBatches: result.failedBatches
     }
 
     const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
@@ -334,18 +1229,29 @@ export default function Home() {
     setApiKey('')
     setApiKeyValid(null)
     setCampaignName('')
-    setFile(null)
-    setParsedData(null)
-    setColumnMapping(null)
+    setFiles([])
+    setUploadedFiles([])
+    setSelectedSources([])
+    setColumnMappings({})
+    setDefaultCountry('US')
+    setLineTypePolicy({})
+    setCallingWindow(DEFAULT_CALLING_WINDOW)
+    setWaveSettings(defaultWaveSettings())
+    setDuplicateOptions({ strategy: 'first' })
+    setBatchRetries(DEFAULT_RETRY_OPTIONS.retries)
+    setSchedule(defaultSchedule())
+    setPendingRun(null)
     setProcessSteps([])
     setProgress(0)
     setResult(null)
+    setCancelledRun(null)
     setAlert(null)
     setSelectedId('')
     setSelectedPhoneNumberId('')
     setAssistants([])
     setWorkflows([])
     setPhoneNumbers([])
+    setResourceCursors({})
   }
 
   return (
@@ -415,6 +1321,15 @@ export default function Home() {
           </div>
         )}
 
+        {appState === 'input' && resumableJob && (
+          <UnfinishedUpload
+            job={resumableJob}
+            apiKeyValid={apiKeyValid === true}
+            onResume={() => handleResumeJob()}
+            onDiscard={handleDiscardJob}
+          />
+        )}
+
         {appState === 'input' && (
           <Card className="shadow-xl border-0 bg-white/80 backdrop-blur-sm animate-in fade-in-50 duration-500">
             <CardHeader className="text-center pb-6">
@@ -456,7 +1371,7 @@ export default function Home() {
                           setApiKey(e.target.value)
                           setApiKeyValid(null)
                         }}
-                        onBlur={validateApiKey}
+                        onBlur={() => validateApiKey()}
                         className="pr-10 h-11 bg-white shadow-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500 transition-colors"
                       />
                       <button
@@ -471,6 +1386,17 @@ export default function Home() {
                         )}
                       </button>
                     </div>
+                    {apiKeyValid && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        onClick={() => setAppState('campaigns')}
+                        className="px-0 mt-1 h-auto"
+                      >
+                        <ListChecks className="h-4 w-4 mr-1" />
+                        View existing campaigns
+                      </Button>
+                    )}
                   </div>
 
                   <div>
@@ -484,6 +1410,57 @@ export default function Home() {
                       className="mt-2 h-11 bg-white shadow-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500 transition-colors"
                     />
                   </div>
+
+                  <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={schedule.enabled}
+                        onChange={(e) => setSchedule(prev => ({ ...prev, enabled: e.target.checked }))}
+                      />
+                      Schedule for later
+                    </label>
+                    {schedule.enabled ? (
+                      <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div>
+                          <Label htmlFor="schedule-start" className="text-xs text-gray-600">Start</Label>
+                          <Input
+                            id="schedule-start"
+                            type="datetime-local"
+                            value={schedule.start}
+                            onChange={(e) => setSchedule(prev => ({ ...prev, start: e.target.value }))}
+                            className="mt-1 h-11 bg-white shadow-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500 transition-colors"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="schedule-end" className="text-xs text-gray-600">End (optional)</Label>
+                          <Input
+                            id="schedule-end"
+                            type="datetime-local"
+                            value={schedule.end}
+                            min={schedule.start || undefined}
+                            onChange={(e) => setSchedule(prev => ({ ...prev, end: e.target.value }))}
+                            className="mt-1 h-11 bg-white shadow-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500 transition-colors"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="schedule-timezone" className="text-xs text-gray-600">Timezone</Label>
+                          <select
+                            id="schedule-timezone"
+                            value={schedule.timezone}
+                            onChange={(e) => setSchedule(prev => ({ ...prev, timezone: e.target.value }))}
+                            className="w-full mt-1 h-11 px-3 bg-white border border-gray-200 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {scheduleTimezones.map(timezone => (
+                              <option key={timezone} value={timezone}>{timezone}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500 mt-1">Calls start as soon as the campaign is created</p>
+                    )}
+                  </div>
                 </div>
               </div>
 
@@ -536,28 +1513,25 @@ export default function Home() {
                     </div>
 
                     <div>
-                      <Label className="text-sm font-medium text-gray-700">
+                      <Label htmlFor="resource-select" className="text-sm font-medium text-gray-700">
                         Select {selectedType === 'assistant' ? 'Assistant' : 'Workflow'}
                       </Label>
-                      <Select value={selectedId} onValueChange={setSelectedId}>
-                        <SelectTrigger className="mt-2 h-11 bg-white shadow-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500">
-                          <SelectValue placeholder={`Choose a ${selectedType}...`} />
-                        </SelectTrigger>
-                        <SelectContent className="bg-white border border-gray-200 shadow-lg z-50">
-                          {selectedType === 'assistant' 
-                            ? assistants.map((assistant) => (
-                                <SelectItem key={assistant.id} value={assistant.id} className="hover:bg-blue-50 focus:bg-blue-50">
-                                  {assistant.name || `Assistant ${assistant.id.slice(0, 8)}`}
-                                </SelectItem>
-                              ))
-                            : workflows.map((workflow) => (
-                                <SelectItem key={workflow.id} value={workflow.id} className="hover:bg-blue-50 focus:bg-blue-50">
-                                  {workflow.name || `Workflow ${workflow.id.slice(0, 8)}`}
-                                </SelectItem>
-                              ))
-                          }
-                        </SelectContent>
-                      </Select>
+                      <ResourceCombobox
+                        id="resource-select"
+                        options={selectedType === 'assistant' ? assistantOptions : workflowOptions}
+                        value={selectedId}
+                        onChange={setSelectedId}
+                        placeholder={`Search ${selectedType}s by name or ID...`}
+                        recentIds={recentResources[selectedType]}
+                        hasMore={Boolean(resourceCursors[selectedType])}
+                        loadingMore={loadingMoreResources === selectedType}
+                        onLoadMore={() => loadMoreResources(selectedType)}
+                      />
+                      {assistantPlaceholders.length > 0 && (
+                        <p className="text-xs text-blue-700 mt-2 bg-blue-50 px-3 py-2 rounded-md">
+                          This assistant&apos;s prompts use {assistantPlaceholders.map(name => `{{${name}}}`).join(', ')}. You&apos;ll map each one to a column in the next step.
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -575,20 +1549,19 @@ export default function Home() {
                   <div className="bg-gray-50/50 p-6 rounded-lg border border-gray-100">
                     <div className="flex items-center gap-2 mb-3">
                       <Phone className="h-4 w-4 text-emerald-600" />
-                      <Label className="text-sm font-medium text-gray-700">Outbound Phone Number *</Label>
+                      <Label htmlFor="phone-number-select" className="text-sm font-medium text-gray-700">Outbound Phone Number *</Label>
                     </div>
-                    <Select value={selectedPhoneNumberId} onValueChange={setSelectedPhoneNumberId}>
-                      <SelectTrigger className="h-11 bg-white shadow-sm border-gray-200 focus:border-emerald-500 focus:ring-emerald-500">
-                        <SelectValue placeholder="Choose a phone number..." />
-                      </SelectTrigger>
-                      <SelectContent className="bg-white border border-gray-200 shadow-lg z-50">
-                        {phoneNumbers.map((phoneNumber) => (
-                          <SelectItem key={phoneNumber.id} value={phoneNumber.id} className="hover:bg-emerald-50 focus:bg-emerald-50">
-                            {phoneNumber.name ? `${phoneNumber.name} (${phoneNumber.number})` : phoneNumber.number}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <ResourceCombobox
+                      id="phone-number-select"
+                      options={phoneNumberOptions}
+                      value={selectedPhoneNumberId}
+                      onChange={setSelectedPhoneNumberId}
+                      placeholder="Search phone numbers by name, number or ID..."
+                      recentIds={recentResources.phoneNumber}
+                      hasMore={Boolean(resourceCursors.phoneNumber)}
+                      loadingMore={loadingMoreResources === 'phoneNumber'}
+                      onLoadMore={() => loadMoreResources('phoneNumber')}
+                    />
                     {selectedPhoneNumberId && (
                       <p className="text-xs text-emerald-600 mt-2 bg-emerald-50 px-3 py-2 rounded-md">
                         ✓ This number will be used for outbound calls
@@ -624,7 +1597,35 @@ export default function Home() {
                     <Upload className="h-4 w-4 text-orange-600" />
                     <Label className="text-sm font-medium text-gray-700">Upload Lead List</Label>
                   </div>
-                  <FileUpload onFileSelect={handleFileSelect} />
+                  <FileUpload files={files} onFilesChange={handleFilesChange} />
+                  {uploadedFiles.map(u => (
+                    <ParseOptionsPanel
+                      key={u.id}
+                      fileName={u.name}
+                      isWorkbook={!isDelimitedFile(u.file.name)}
+                      format={u.sources[0].format}
+                      detectedFormat={u.sources[0].detectedFormat}
+                      overrides={u.overrides}
+                      onChange={(overrides) => handleFormatChange(u, overrides)}
+                    />
+                  ))}
+                  {uploadedFiles.filter(u => u.sources.length > 1).map(u => (
+                    <SheetPicker
+                      key={u.id}
+                      fileName={u.name}
+                      sheets={u.sources}
+                      selected={u.sources
+                        .map((source, index) => selectedSources.includes(source.key) ? index : -1)
+                        .filter(index => index >= 0)}
+                      onChange={(indexes) => {
+                        const fileKeys = u.sources.map(source => source.key)
+                        setSelectedSources(prev => [
+                          ...prev.filter(key => !fileKeys.includes(key)),
+                          ...indexes.map(index => fileKeys[index])
+                        ])
+                      }}
+                    />
+                  ))}
                 </div>
               </div>
 
@@ -632,12 +1633,13 @@ export default function Home() {
               <div className="pt-4 border-t border-gray-100">
                 <Button
                   onClick={handleStartProcessing}
-                  disabled={!apiKey || !campaignName || !file || isProcessing || loadingResources || (apiKeyValid === true && (!selectedId || !selectedPhoneNumberId))}
+                  disabled={!apiKey || !campaignName || files.length === 0 || selectedSources.length === 0 || isProcessing || loadingResources || (apiKeyValid === true && (!selectedId || !selectedPhoneNumberId))}
                   className="w-full h-12 text-base font-semibold bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 disabled:transform-none disabled:shadow-md"
                   title={
                     !apiKey ? 'Please enter an API key' :
                     !campaignName ? 'Please enter a campaign name' :
-                    !file ? 'Please select a file' :
+                    files.length === 0 ? 'Please select a file' :
+                    selectedSources.length === 0 ? 'Please select at least one sheet' :
                     loadingResources ? 'Loading resources...' :
                     apiKeyValid === true && !selectedId ? 'Please select an assistant or workflow' :
                     apiKeyValid === true && !selectedPhoneNumberId ? 'Please select a phone number' :
@@ -655,7 +1657,7 @@ export default function Home() {
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
                         Loading Resources...
                       </>
-                    ) : file ? (
+                    ) : files.length > 0 ? (
                       <>
                         <CheckCircle2 className="h-4 w-4" />
                         Validate Data
@@ -673,14 +1675,165 @@ export default function Home() {
           </Card>
         )}
 
-        {appState === 'mapping' && parsedData && (
+        {appState === 'mapping' && (
           <div className="space-y-6">
-            <FieldMapper
-              headers={parsedData.headers}
-              detections={parsedData.detections}
-              sampleData={parsedData.rows.slice(0, 3)}
-              onMappingChange={setColumnMapping}
-            />
+            <Card className="p-6">
+              <Label htmlFor="default-country">Default Country</Label>
+              <select
+                id="default-country"
+                value={defaultCountry}
+                onChange={(e) => setDefaultCountry(e.target.value as CountryCode)}
+                className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <optgroup label="Common">
+                  {countryOptions.filter(c => COMMON_COUNTRIES.includes(c.code)).map(country => (
+                    <option key={country.code} value={country.code}>{country.name}</option>
+                  ))}
+                </optgroup>
+                <optgroup label="All countries">
+                  {countryOptions.map(country => (
+                    <option key={country.code} value={country.code}>{country.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Numbers without a +country prefix are read as numbers in this country, unless a mapped country column says otherwise
+              </p>
+
+              <Label className="block mt-4">Line Types</Label>
+              <div className="mt-2 space-y-2">
+                {LINE_TYPE_OPTIONS.map(option => (
+                  <label key={option.key} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(lineTypePolicy[option.key])}
+                      onChange={(e) => setLineTypePolicy(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                      className="mt-1"
+                    />
+                    <span>
+                      {option.label}
+                      {option.hint && <span className="block text-xs text-gray-500">{option.hint}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <Label htmlFor="duplicate-strategy" className="block mt-4">Duplicates</Label>
+              <select
+                id="duplicate-strategy"
+                value={duplicateOptions.strategy}
+                onChange={(e) => setDuplicateOptions(prev => ({ ...prev, strategy: e.target.value as DuplicateStrategy }))}
+                className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{DUPLICATE_STRATEGY_LABELS[strategy]}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 mt-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={Boolean(duplicateOptions.byEmail)}
+                  onChange={(e) => setDuplicateOptions(prev => ({ ...prev, byEmail: e.target.checked }))}
+                />
+                Also treat rows with the same email address as duplicates
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Merging fills a kept row&apos;s empty name, email and variables from its duplicates. You can review every group before upload.
+              </p>
+
+              <Label className="block mt-4">Calling Window</Label>
+              <div className="mt-2 flex items-center gap-2">
+                <input
+                  type="time"
+                  value={callingWindow.start}
+                  onChange={(e) => setCallingWindow(prev => ({ ...prev, start: e.target.value }))}
+                  className="px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="time"
+                  value={callingWindow.end}
+                  onChange={(e) => setCallingWindow(prev => ({ ...prev, end: e.target.value }))}
+                  className="px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <select
+                  value={callingWindow.mode}
+                  onChange={(e) => setCallingWindow(prev => ({ ...prev, mode: e.target.value as CallingWindow['mode'] }))}
+                  className="flex-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="warn">Warn if leads are outside</option>
+                  <option value="block">Don&apos;t create the campaign</option>
+                </select>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Each lead&apos;s local time comes from its timezone column, state column or area code
+              </p>
+
+              <label className="flex items-center gap-2 mt-4 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={waveSettings.enabled}
+                  onChange={(e) => setWaveSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                />
+                <span className="font-medium">Split into one campaign per timezone</span>
+              </label>
+              {waveSettings.enabled && schedule.enabled && (
+                <p className="text-xs text-yellow-700 mt-1">
+                  Each wave is scheduled on its own, replacing the schedule set in the campaign setup
+                </p>
+              )}
+              {waveSettings.enabled && (
+                <div className="mt-2 flex items-center gap-2">
+                  <span className="text-sm text-gray-500">Start each at</span>
+                  <input
+                    type="time"
+                    value={waveSettings.startTime}
+                    onChange={(e) => setWaveSettings(prev => ({ ...prev, startTime: e.target.value }))}
+                    className="px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <span className="text-sm text-gray-500">local time on</span>
+                  <input
+                    type="date"
+                    value={waveSettings.date}
+                    onChange={(e) => setWaveSettings(prev => ({ ...prev, date: e.target.value }))}
+                    className="px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              )}
+
+              <Label htmlFor="batch-retries" className="block mt-4">Failed Batches</Label>
+              <select
+                id="batch-retries"
+                value={batchRetries}
+                onChange={(e) => setBatchRetries(Number(e.target.value))}
+                className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value={0}>Don&apos;t retry</option>
+                {[1, 3, 5, 10].map(retries => (
+                  <option key={retries} value={retries}>Retry up to {retries} {retries === 1 ? 'time' : 'times'}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Rate-limited batches are retried, waiting longer each time or as long as Vapi asks. Other failures
+                may have reached Vapi, so they are listed for you to retry rather than sent again.
+              </p>
+            </Card>
+
+            {sourcesToProcess.map(source => (
+              <FieldMapper
+                key={source.key}
+                title={allSources.length > 1
+                  ? `Map Your Data Fields: ${getSourceLabel(source)}`
+                  : undefined}
+                headers={source.headers}
+                detections={source.detections}
+                sampleData={source.sampleRows.slice(0, 3)}
+                requiredVariables={assistantPlaceholders}
+                onMappingChange={mappingHandlers[source.key]}
+              />
+            ))}
+
+            <SuppressionListManager defaultCountry={defaultCountry} />
             
             <div className="flex gap-3">
               <Button
@@ -692,7 +1845,7 @@ export default function Home() {
               </Button>
               <Button
                 onClick={handleProcessData}
-                disabled={!columnMapping?.phoneColumn}
+                disabled={!mappingComplete}
                 className="flex-1"
               >
                 Process Data
@@ -701,10 +1854,77 @@ export default function Home() {
           </div>
         )}
 
+        {appState === 'corrections' && pendingRun?.rows && (
+          <InvalidRowEditor
+            rows={pendingRun.rows}
+            validLeads={pendingRun.validation.valid.length}
+            onRevalidate={handleRevalidateRow}
+            onBack={() => {
+              setPendingRun(null)
+              setAppState('mapping')
+            }}
+            onConfirm={handleConfirmCorrections}
+          />
+        )}
+
+        {appState === 'duplicates' && pendingRun && (
+          <DuplicateReview
+            groups={pendingRun.validation.duplicateGroups}
+            strategy={duplicateOptions.strategy || 'first'}
+            onKeep={handleKeepDuplicate}
+            onBack={() => {
+              setPendingRun(null)
+              setAppState('mapping')
+            }}
+            onConfirm={handleConfirmRun}
+          />
+        )}
+
+        {appState === 'review' && pendingRun?.waves && (
+          <WavePreview
+            campaignName={campaignName}
+            waves={pendingRun.waves}
+            errors={getWaveErrors(pendingRun.waves)}
+            onBack={() => {
+              setPendingRun(null)
+              setAppState('mapping')
+            }}
+            onConfirm={handleConfirmWaves}
+          />
+        )}
+
         {appState === 'processing' && (
           <ProgressTracker
             steps={processSteps}
             progress={progress}
+            onCancel={handleCancel}
+            cancelling={cancelling}
+          />
+        )}
+
+        {appState === 'cancelled' && cancelledRun && (
+          <CancelledUpload
+            completed={cancelledRun.completed}
+            partial={cancelledRun.partial}
+            deleting={deletingPartial}
+            deleted={Boolean(cancelledRun.partialDeleted)}
+            onDeletePartial={handleDeletePartial}
+            onBack={() => {
+              setCancelledRun(null)
+              setAppState('mapping')
+            }}
+            onStartOver={handleCreateAnother}
+          />
+        )}
+
+        {appState === 'campaigns' && (
+          <CampaignBrowser
+            apiKey={apiKey}
+            assistants={assistants}
+            workflows={workflows}
+            phoneNumbers={phoneNumbers}
+            onError={(message, error) => showVapiError(message, error)}
+            onBack={() => setAppState('input')}
           />
         )}
 
@@ -712,12 +1932,24 @@ export default function Home() {
           <ResultSummary
             success={result.success}
             campaignId={result.campaignId}
+            campaigns={result.campaigns}
             totalLeads={result.totalRows}
             validLeads={result.validRows}
             invalidLeads={result.invalidRows}
             duplicates={result.duplicateRows}
+            suppressed={result.suppressedRows}
+            suppressionCounts={result.bySuppressionList}
             timeElapsed="2m 34s"
             errors={result.errors}
+            fileSummaries={result.byFile}
+            regionCounts={result.byRegion}
+            lineTypeSummaries={result.byLineType}
+            timezoneCounts={result.byTimezone}
+            schedule={result.schedule}
+            missingVariables={result.missingVariables}
+            partial={result.partial}
+            failedBatches={result.failedBatches}
+            onRetryFailed={resumableJob ? () => handleResumeJob(true) : undefined}
             onDownloadReport={handleDownloadReport}
             onCreateAnother={handleCreateAnother}
           />
@@ -725,4 +1957,22 @@ export default function Home() {
       </div>
     </main>
   )
+}
+
+// Items with the given IDs that aren't in loaded, fetched one by one; ones that no longer exist are left out
+async function getMissingItems<T extends { id: string }>(
+  loaded: T[],
+  ids: string[],
+  getItem: (id: string) => Promise<T>
+): Promise<T[]> {
+  const missing = ids.filter(id => !loaded.some(item => item.id === id))
+  const items: Array<T | null> = await Promise.all(missing.map(id => getItem(id).catch(() => null)))
+  return items.filter((item): item is T => item !== null)
+}
+
+// "America/Chicago: 120, America/Denver: 4"
+function describeTimezones(counts: Record<string, number>): string {
+  return Object.keys(counts)
+    .map(timezone => `${timezone}: ${counts[timezone].toLocaleString()}`)
+    .join(', ')
 }
\ No newline at end of file
@@ -0,0 +1,322 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { VapiClient, Campaign, CampaignStatus, Assistant, Workflow, PhoneNumber, ListCursor } from '@/lib/vapiClient'
+import { ArrowLeft, ListChecks, RefreshCw, Square, Trash2 } from 'lucide-react'
+
+interface CampaignBrowserProps {
+  apiKey: string
+  // Used to show names instead of IDs
+  assistants: Assistant[]
+  workflows: Workflow[]
+  phoneNumbers: PhoneNumber[]
+  onError: (message: string, error: unknown) => void
+  onBack: () => void
+}
+
+// Vapi documents no way to pause a campaign, so ending is the only status change offered
+type CampaignAction = 'end' | 'delete'
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  'scheduled': 'bg-blue-100 text-blue-800',
+  'in-progress': 'bg-green-100 text-green-800',
+  'ended': 'bg-gray-100 text-gray-700'
+}
+
+// What each action does, asked before it is sent to Vapi
+const ACTION_CONFIRMATIONS: Record<CampaignAction, (name: string) => string> = {
+  end: name => `End "${name}"? Calls that haven't been placed are cancelled and the campaign can't be restarted.`,
+  delete: name => `Delete "${name}" and its customer list? This can't be undone.`
+}
+
+function getCallCounts(campaign: Campaign) {
+  return {
+    scheduled: (campaign.callsCounterScheduled || 0) + (campaign.callsCounterQueued || 0),
+    inProgress: campaign.callsCounterInProgress || 0,
+    ended: (campaign.callsCounterEnded || 0) + (campaign.callsCounterEndedVoicemail || 0)
+  }
+}
+
+export function CampaignBrowser({
+  apiKey,
+  assistants,
+  workflows,
+  phoneNumbers,
+  onError,
+  onBack
+}: CampaignBrowserProps) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [loading, setLoading] = useState(true)
+  // Where the next page starts; missing once every campaign is loaded
+  const [cursor, setCursor] = useState<ListCursor>()
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [search, setSearch] = useState('')
+  const [opened, setOpened] = useState<Campaign | null>(null)
+  const [busyAction, setBusyAction] = useState<CampaignAction | null>(null)
+
+  const loadCampaigns = async () => {
+    setLoading(true)
+    try {
+      const page = await new VapiClient(apiKey).getCampaigns()
+      setCampaigns(page.items)
+      setCursor(page.next)
+    } catch (error) {
+      onError('Could not load campaigns', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Older campaigns are only fetched when asked for, one page per request
+  const loadMoreCampaigns = async () => {
+    if (!cursor) return
+    setLoadingMore(true)
+    try {
+      const page = await new VapiClient(apiKey).getCampaigns(cursor)
+      setCampaigns(prev => prev.concat(page.items))
+      setCursor(page.next)
+    } catch (error) {
+      onError('Could not load more campaigns', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  // Loaded once when the browser opens; Refresh reloads
+  useEffect(() => {
+    loadCampaigns()
+  }, [])
+
+  const getAgentName = (campaign: Campaign) => {
+    if (campaign.assistantId) {
+      return assistants.find(assistant => assistant.id === campaign.assistantId)?.name || campaign.assistantId
+    }
+    if (campaign.workflowId) {
+      return workflows.find(workflow => workflow.id === campaign.workflowId)?.name || campaign.workflowId
+    }
+    return '-'
+  }
+
+  const getPhoneNumberLabel = (campaign: Campaign) => {
+    const phoneNumber = phoneNumbers.find(number => number.id === campaign.phoneNumberId)
+    if (!phoneNumber) return campaign.phoneNumberId || '-'
+    return phoneNumber.name ? `${phoneNumber.name} (${phoneNumber.number})` : phoneNumber.number
+  }
+
+  const handleOpen = async (campaign: Campaign) => {
+    // Show what the list has straight away, then the latest counts
+    setOpened(campaign)
+    try {
+      const latest = await new VapiClient(apiKey).getCampaign(campaign.id)
+      setOpened(current => current?.id === latest.id ? latest : current)
+      setCampaigns(prev => prev.map(existing => existing.id === latest.id ? latest : existing))
+    } catch (error) {
+      onError(`Could not load "${campaign.name}"`, error)
+    }
+  }
+
+  const handleAction = async (campaign: Campaign, action: CampaignAction) => {
+    if (!confirm(ACTION_CONFIRMATIONS[action](campaign.name))) return
+
+    const client = new VapiClient(apiKey)
+    setBusyAction(action)
+    try {
+      if (action === 'delete') {
+        await client.deleteCampaign(campaign.id)
+        setCampaigns(prev => prev.filter(existing => existing.id !== campaign.id))
+        setOpened(null)
+        return
+      }
+
+      const updated = await client.updateCampaign(campaign.id, { status: 'ended' })
+      setOpened(updated)
+      setCampaigns(prev => prev.map(existing => existing.id === updated.id ? updated : existing))
+    } catch (error) {
+      onError(`Could not ${action} "${campaign.name}"`, error)
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const query = search.trim().toLowerCase()
+  const visible = query
+    ? campaigns.filter(campaign => campaign.name.toLowerCase().includes(query) || campaign.id.includes(query))
+    : campaigns
+
+  const renderStatus = (campaign: Campaign) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[campaign.status] || STATUS_STYLES.ended}`}>
+      {campaign.status}
+    </span>
+  )
+
+  if (opened) {
+    const counts = getCallCounts(opened)
+    const ended = opened.status === 'ended'
+    return (
+      <Card className="p-6">
+        <button
+          onClick={() => setOpened(null)}
+          className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          All campaigns
+        </button>
+
+        <div className="flex items-start justify-between gap-3 mb-1">
+          <h3 className="text-lg font-semibold">{opened.name}</h3>
+          {renderStatus(opened)}
+        </div>
+        <p className="text-xs text-gray-500 font-mono mb-6">{opened.id}</p>
+
+        <div className="space-y-3 mb-6 text-sm">
+          <div className="flex justify-between gap-2">
+            <span className="text-gray-600">{opened.workflowId ? 'Workflow:' : 'Assistant:'}</span>
+            <span className="truncate">{getAgentName(opened)}</span>
+          </div>
+          <div className="flex justify-between gap-2">
+            <span className="text-gray-600">Phone Number:</span>
+            <span className="truncate">{getPhoneNumberLabel(opened)}</span>
+          </div>
+          {opened.customers && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Customers:</span>
+              <span className="font-semibold">{opened.customers.length.toLocaleString()}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-600">Calls waiting:</span>
+            <span>{counts.scheduled.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Calls in progress:</span>
+            <span>{counts.inProgress.toLocaleString()}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Calls ended:</span>
+            <span>
+              {counts.ended.toLocaleString()}
+              {opened.callsCounterEndedVoicemail ? ` (${opened.callsCounterEndedVoicemail.toLocaleString()} voicemail)` : ''}
+            </span>
+          </div>
+          {opened.schedulePlan && (
+            <div className="flex justify-between gap-2">
+              <span className="text-gray-600">Schedule:</span>
+              <span className="text-right">
+                Starts {new Date(opened.schedulePlan.earliestAt).toLocaleString()}
+                {opened.schedulePlan.latestAt && <>, ends {new Date(opened.schedulePlan.latestAt).toLocaleString()}</>}
+              </span>
+            </div>
+          )}
+          {opened.endedReason && (
+            <div className="flex justify-between gap-2">
+              <span className="text-gray-600">Ended because:</span>
+              <span>{opened.endedReason}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {!ended && (
+            <Button variant="outline" size="sm" onClick={() => handleAction(opened, 'end')} disabled={busyAction !== null}>
+              <Square className="h-4 w-4 mr-1" />
+              {busyAction === 'end' ? 'Ending...' : 'End campaign'}
+            </Button>
+          )}
+          <Button variant="destructive" size="sm" onClick={() => handleAction(opened, 'delete')} disabled={busyAction !== null}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            {busyAction === 'delete' ? 'Deleting...' : 'Delete'}
+          </Button>
+        </div>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-3 mb-1">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Your Campaigns
+        </h3>
+        <Button variant="outline" size="sm" onClick={loadCampaigns} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {loading
+          ? 'Loading campaigns...'
+          : cursor
+            ? `The ${campaigns.length.toLocaleString()} newest campaigns in this Vapi account`
+            : `${campaigns.length.toLocaleString()} campaigns in this Vapi account`}
+      </p>
+
+      {campaigns.length > 0 && (
+        <Input
+          placeholder="Search by name or ID..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="mb-4"
+        />
+      )}
+
+      {!loading && visible.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6">
+          {campaigns.length === 0 ? 'No campaigns yet' : 'No campaigns match your search'}
+        </p>
+      )}
+
+      {visible.length > 0 && (
+        <div className="max-h-[32rem] overflow-y-auto border rounded-md mb-6">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 px-3 font-medium">Campaign</th>
+                <th className="py-2 px-3 font-medium">Status</th>
+                <th className="py-2 px-3 font-medium text-right">Customers</th>
+                <th className="py-2 px-3 font-medium text-right">Calls ended</th>
+                <th className="py-2 px-3 font-medium">Agent / Number</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(campaign => (
+                <tr
+                  key={campaign.id}
+                  onClick={() => handleOpen(campaign)}
+                  className="border-b last:border-0 align-top cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="py-2 px-3">
+                    <p className="font-medium">{campaign.name}</p>
+                    {campaign.createdAt && (
+                      <p className="text-xs text-gray-500">{new Date(campaign.createdAt).toLocaleDateString()}</p>
+                    )}
+                  </td>
+                  <td className="py-2 px-3">{renderStatus(campaign)}</td>
+                  <td className="py-2 px-3 text-right">{campaign.customers ? campaign.customers.length.toLocaleString() : '-'}</td>
+                  <td className="py-2 px-3 text-right">{getCallCounts(campaign).ended.toLocaleString()}</td>
+                  <td className="py-2 px-3 text-xs text-gray-600">
+                    <p className="truncate max-w-[12rem]">{getAgentName(campaign)}</p>
+                    <p className="truncate max-w-[12rem]">{getPhoneNumberLabel(campaign)}</p>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {cursor && !loading && (
+        <Button variant="outline" onClick={loadMoreCampaigns} disabled={loadingMore} className="w-full mb-3">
+          {loadingMore ? 'Loading...' : 'Load older campaigns'}
+        </Button>
+      )}
+
+      <Button variant="outline" onClick={onBack} className="w-full">
+        Back
+      </Button>
+    </Card>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { BatchResult } from '@/lib/vapiClient'
+import { Ban, CheckCircle2, XCircle, Trash2 } from 'lucide-react'
+
+// The campaign that was being filled when the upload was cancelled
+export interface PartialCampaign {
+  name: string
+  campaignId: string
+  totalLeads: number
+  totalBatches: number
+  // Batches Vapi received, in order
+  batches: BatchResult[]
+}
+
+interface CancelledUploadProps {
+  // Campaigns fully created before the cancel, when leads were split into waves
+  completed: Array<{ name: string; campaignId: string; leads: number }>
+  partial?: PartialCampaign
+  deleting: boolean
+  deleted: boolean
+  onDeletePartial: () => void
+  onBack: () => void
+  onStartOver: () => void
+}
+
+export function CancelledUpload({
+  completed,
+  partial,
+  deleting,
+  deleted,
+  onDeletePartial,
+  onBack,
+  onStartOver
+}: CancelledUploadProps) {
+  const sentLeads = partial
+    ? partial.batches.filter(batch => batch.success).reduce((sum, batch) => sum + batch.leadsProcessed, 0)
+    : 0
+  const firstUnsent = partial ? partial.batches.length + 1 : 0
+
+  return (
+    <Card className="p-8">
+      <div className="text-center mb-6">
+        <Ban className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Upload Cancelled</h2>
+        {!partial && completed.length === 0 && (
+          <p className="text-gray-600">No campaign was created</p>
+        )}
+      </div>
+
+      {completed.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">Created before the cancel:</h4>
+          {completed.map(campaign => (
+            <div key={campaign.campaignId} className="flex justify-between gap-2 text-sm border-b last:border-0 py-1">
+              <span className="truncate">{campaign.name}</span>
+              <span className="text-gray-600 shrink-0">{campaign.leads.toLocaleString()} leads</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {partial && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-1">Partially uploaded: {partial.name}</h4>
+          <p className="text-xs text-gray-500 mb-3">
+            <span className="font-mono">{partial.campaignId}</span>
+            {' · '}{sentLeads.toLocaleString()} of {partial.totalLeads.toLocaleString()} leads sent
+          </p>
+
+          <div className="max-h-48 overflow-y-auto border rounded-md mb-3">
+            <table className="w-full text-sm">
+              <tbody>
+                {partial.batches.map(batch => (
+                  <tr key={batch.batchNumber} className="border-b last:border-0">
+                    <td className="py-1.5 px-3">Batch {batch.batchNumber}</td>
+                    <td className="py-1.5 px-3 text-right">{batch.leadsProcessed.toLocaleString()} leads</td>
+                    <td className="py-1.5 px-3">
+                      {batch.success ? (
+                        <span className="flex items-center gap-1 text-green-700">
+                          <CheckCircle2 className="h-3 w-3" />
+                          Sent
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-destructive">
+                          <XCircle className="h-3 w-3" />
+                          {batch.error || 'Failed'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {firstUnsent <= partial.totalBatches && (
+            <p className="text-xs text-gray-600 mb-3">
+              {firstUnsent === partial.totalBatches
+                ? `Batch ${firstUnsent} was not sent.`
+                : `Batches ${firstUnsent} to ${partial.totalBatches} were not sent.`}
+            </p>
+          )}
+
+          {deleted ? (
+            <p className="text-sm text-green-700">The partial campaign was deleted.</p>
+          ) : (
+            <Button variant="destructive" size="sm" onClick={onDeletePartial} disabled={deleting}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              {deleting ? 'Deleting...' : 'Delete partial campaign'}
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Back to Mapping
+        </Button>
+        <Button onClick={onStartOver} className="flex-1">
+          Start Over
+        </Button>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { DuplicateGroup, DuplicateStrategy, DUPLICATE_STRATEGY_LABELS } from '@/lib/duplicates'
+import { ValidatedLead } from '@/lib/dataValidator'
+import { Copy } from 'lucide-react'
+
+// Groups rendered before the "Show more" button
+const PAGE_SIZE = 20
+
+interface DuplicateReviewProps {
+  groups: DuplicateGroup[]
+  strategy: DuplicateStrategy
+  onKeep: (groupId: number, position: number) => void
+  onBack: () => void
+  onConfirm: () => void
+}
+
+export function DuplicateReview({
+  groups,
+  strategy,
+  onKeep,
+  onBack,
+  onConfirm
+}: DuplicateReviewProps) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+  const removedRows = groups.reduce((sum, group) => sum + group.rows.length - 1, 0)
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Copy className="h-5 w-5" />
+        Review Duplicates
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        {groups.length.toLocaleString()} groups of duplicate rows, {removedRows.toLocaleString()} rows will not be uploaded.
+        Rule: {DUPLICATE_STRATEGY_LABELS[strategy].toLowerCase()}. Pick another row to keep it instead.
+      </p>
+
+      <div className="space-y-4 mb-6">
+        {groups.slice(0, visibleCount).map(group => (
+          <DuplicateGroupTable
+            key={group.id}
+            group={group}
+            merged={strategy === 'merge'}
+            onKeep={position => onKeep(group.id, position)}
+          />
+        ))}
+      </div>
+
+      {groups.length > visibleCount && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+          className="mb-6"
+        >
+          Show more ({(groups.length - visibleCount).toLocaleString()} remaining)
+        </Button>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Back
+        </Button>
+        <Button onClick={onConfirm} className="flex-1">
+          Continue
+        </Button>
+      </div>
+    </Card>
+  )
+}
+
+interface DuplicateGroupTableProps {
+  group: DuplicateGroup
+  // Show the merged lead next to the rows it came from
+  merged: boolean
+  onKeep: (position: number) => void
+}
+
+function DuplicateGroupTable({ group, merged, onKeep }: DuplicateGroupTableProps) {
+  const variableNames = group.rows
+    .flatMap(row => Object.keys(row.lead.variables || {}))
+    .filter((name, index, names) => names.indexOf(name) === index)
+  const fields: Array<{ label: string; value: (lead: ValidatedLead) => string | undefined }> = [
+    { label: 'Phone', value: lead => lead.number },
+    { label: 'Name', value: lead => lead.name },
+    { label: 'Email', value: lead => lead.email },
+    ...variableNames.map(name => ({ label: `{{${name}}}`, value: (lead: ValidatedLead) => lead.variables?.[name] }))
+  ]
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-gray-50">
+            <th className="py-2 px-3 text-left font-medium text-gray-600 w-24" />
+            {group.rows.map(row => (
+              <th
+                key={row.position}
+                className={`py-2 px-3 text-left font-medium ${row.position === group.kept ? 'bg-green-50' : ''}`}
+              >
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`duplicate-group-${group.id}`}
+                    checked={row.position === group.kept}
+                    onChange={() => onKeep(row.position)}
+                  />
+                  <span>
+                    {row.file && `${row.file}, `}{row.sheet && `${row.sheet}, `}Row {row.rowIndex}
+                  </span>
+                </label>
+              </th>
+            ))}
+            {merged && <th className="py-2 px-3 text-left font-medium text-blue-700">Uploaded</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field.label} className="border-b last:border-0">
+              <td className="py-1.5 px-3 text-gray-600">{field.label}</td>
+              {group.rows.map(row => (
+                <td
+                  key={row.position}
+                  className={`py-1.5 px-3 ${row.position === group.kept ? 'bg-green-50' : ''}`}
+                >
+                  {field.value(row.lead) || <span className="text-gray-400">-</span>}
+                </td>
+              ))}
+              {merged && (
+                <td className="py-1.5 px-3 text-blue-700">
+                  {field.value(group.lead) || <span className="text-gray-400">-</span>}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,56 +1,208 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useId } from 'react'
 import { Label } from '@/components/ui/label'
 import { Card } from '@/components/ui/card'
-import { ColumnDetection } from '@/lib/fileParser'
-import { CheckCircle, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { MappingTemplateBar } from '@/components/MappingTemplateBar'
+import { TransformEditor } from '@/components/TransformEditor'
+import { ColumnDetection, ColumnMapping, LeadField, VariableMapping, VARIABLE_NAME_PATTERN } from '@/lib/fileParser'
+import { ColumnTransform } from '@/lib/transforms'
+import { MappingTemplate, findTemplateForHeaders } from '@/lib/mappingTemplates'
+import { CheckCircle, AlertCircle, Plus, Trash2 } from 'lucide-react'
 
 interface FieldMapperProps {
+  title?: string
   headers: string[]
   detections: ColumnDetection[]
   sampleData: Record<string, any>[]
-  onMappingChange: (mapping: {
-    phoneColumn: string
-    nameColumn?: string
-    emailColumn?: string
-  }) => void
+  // {{placeholders}} from the assistant's prompts; each must be mapped to a column
+  requiredVariables?: string[]
+  onMappingChange: (mapping: ColumnMapping) => void
 }
 
+// Stable default, so the effects below don't re-run on every render
+const NO_VARIABLES: string[] = []
+
 export function FieldMapper({
+  title = 'Map Your Data Fields',
   headers,
   detections,
   sampleData,
+  requiredVariables = NO_VARIABLES,
   onMappingChange
 }: FieldMapperProps) {
+  const idPrefix = useId()
   const [phoneColumn, setPhoneColumn] = useState('')
   const [nameColumn, setNameColumn] = useState('')
   const [emailColumn, setEmailColumn] = useState('')
+  const [countryColumn, setCountryColumn] = useState('')
+  const [stateColumn, setStateColumn] = useState('')
+  const [timezoneColumn, setTimezoneColumn] = useState('')
+  const [variables, setVariables] = useState<VariableMapping[]>([])
+  const [transforms, setTransforms] = useState<Partial<Record<LeadField, ColumnTransform[]>>>({})
+  const [appliedTemplate, setAppliedTemplate] = useState<string>()
+
+  // Matches a template's column to this file's header the same way the
+  // header signature does, so "Phone " in the template finds "phone" here
+  const resolveColumn = (name?: string) => {
+    if (!name) return ''
+    const normalized = name.trim().toLowerCase()
+    return headers.find(header => header.trim().toLowerCase() === normalized) || ''
+  }
+
+  const applyTemplate = (template: MappingTemplate) => {
+    // Columns the template knows about but this file lacks are left unmapped
+    // Concatenated columns are looked up in this file too
+    const resolveTransforms = (columnTransforms: ColumnTransform[]) => columnTransforms.map(transform =>
+      transform.type === 'concat' ? { ...transform, column: resolveColumn(transform.column) } : transform
+    )
+    const templateVariables = (template.mapping.variables || []).map(v => ({
+      ...v,
+      column: resolveColumn(v.column),
+      ...(v.transforms && { transforms: resolveTransforms(v.transforms) })
+    }))
+    const templateTransforms: Partial<Record<LeadField, ColumnTransform[]>> = {}
+    Object.entries(template.mapping.transforms || {}).forEach(([field, fieldTransforms]) => {
+      templateTransforms[field as LeadField] = resolveTransforms(fieldTransforms || [])
+    })
+    const missing = requiredVariables.filter(name => !templateVariables.some(v => v.name === name))
+
+    setPhoneColumn(resolveColumn(template.mapping.phoneColumn))
+    setNameColumn(resolveColumn(template.mapping.nameColumn))
+    setEmailColumn(resolveColumn(template.mapping.emailColumn))
+    setCountryColumn(resolveColumn(template.mapping.countryColumn))
+    setStateColumn(resolveColumn(template.mapping.stateColumn))
+    setTimezoneColumn(resolveColumn(template.mapping.timezoneColumn))
+    setTransforms(templateTransforms)
+    setVariables([
+      ...missing.map(name => ({ name, column: guessVariableColumn(name, headers) })),
+      ...templateVariables
+    ])
+    setAppliedTemplate(template.name)
+  }
 
   useEffect(() => {
+    // A saved template for this exact set of headers beats auto-detection,
+    // unless it can't even place the phone column
+    const template = findTemplateForHeaders(headers)
+    if (template && resolveColumn(template.mapping.phoneColumn)) {
+      applyTemplate(template)
+      return
+    }
+
     // Set initial values from detection
     const phoneDetection = detections.find(d => d.field === 'phone')
     const nameDetection = detections.find(d => d.field === 'name')
     const emailDetection = detections.find(d => d.field === 'email')
+    const countryDetection = detections.find(d => d.field === 'country')
+    const stateDetection = detections.find(d => d.field === 'state')
+    const timezoneDetection = detections.find(d => d.field === 'timezone')
 
     setPhoneColumn(phoneDetection?.detectedColumn || '')
     setNameColumn(nameDetection?.detectedColumn || '')
     setEmailColumn(emailDetection?.detectedColumn || '')
+    setCountryColumn(countryDetection?.detectedColumn || '')
+    setStateColumn(stateDetection?.detectedColumn || '')
+    setTimezoneColumn(timezoneDetection?.detectedColumn || '')
+    setVariables(requiredVariables.map(name => ({ name, column: guessVariableColumn(name, headers) })))
+    setTransforms({})
+    setAppliedTemplate(undefined)
   }, [detections])
 
   useEffect(() => {
-    onMappingChange({
-      phoneColumn,
-      nameColumn: nameColumn || undefined,
-      emailColumn: emailColumn || undefined
+    // Placeholders can arrive after mount when the assistant loads late
+    setVariables(prev => {
+      const missing = requiredVariables.filter(name => !prev.some(v => v.name === name))
+      if (missing.length === 0) return prev
+      return [...missing.map(name => ({ name, column: guessVariableColumn(name, headers) })), ...prev]
     })
-  }, [phoneColumn, nameColumn, emailColumn, onMappingChange])
+  }, [requiredVariables, headers])
+
+  // Half-filled or repeated variable rows are left out until they are fixed
+  const completeVariables = variables.filter((v, index) =>
+    v.column &&
+    VARIABLE_NAME_PATTERN.test(v.name) &&
+    variables.findIndex(other => other.name === v.name) === index
+  )
+  const mapping: ColumnMapping = {
+    phoneColumn,
+    nameColumn: nameColumn || undefined,
+    emailColumn: emailColumn || undefined,
+    countryColumn: countryColumn || undefined,
+    stateColumn: stateColumn || undefined,
+    timezoneColumn: timezoneColumn || undefined,
+    ...(completeVariables.length > 0 && { variables: completeVariables }),
+    ...(Object.keys(transforms).length > 0 && { transforms })
+  }
+
+  useEffect(() => {
+    onMappingChange(mapping)
+  }, [phoneColumn, nameColumn, emailColumn, countryColumn, stateColumn, timezoneColumn, variables, transforms, onMappingChange])
+
+  const setFieldTransforms = (field: LeadField, fieldTransforms: ColumnTransform[]) => {
+    setAppliedTemplate(undefined)
+    setTransforms(prev => {
+      const next = { ...prev }
+      if (fieldTransforms.length > 0) {
+        next[field] = fieldTransforms
+      } else {
+        delete next[field]
+      }
+      return next
+    })
+  }
+
+  const renderTransforms = (field: LeadField, column: string) => (
+    <TransformEditor
+      column={column}
+      headers={headers}
+      sampleData={sampleData}
+      transforms={transforms[field] || []}
+      onChange={(fieldTransforms) => setFieldTransforms(field, fieldTransforms)}
+    />
+  )
+
+  const updateVariable = (index: number, changes: Partial<VariableMapping>) => {
+    setAppliedTemplate(undefined)
+    setVariables(prev => prev.map((v, i) => {
+      if (i !== index) return v
+      const updated = { ...v, ...changes }
+      // Suggest a variable name from the column until the user types their own
+      if (changes.column && (!v.name || v.name === toVariableName(v.column))) {
+        updated.name = toVariableName(changes.column)
+      }
+      return updated
+    }))
+  }
+
+  const getVariableError = (variable: VariableMapping, index: number) => {
+    if (!variable.name) return null
+    if (!VARIABLE_NAME_PATTERN.test(variable.name)) {
+      return 'Use letters, numbers and underscores only, not starting with a number'
+    }
+    if (variables.findIndex(v => v.name === variable.name) !== index) {
+      return 'This variable is already mapped'
+    }
+    return null
+  }
 
   const getSampleValue = (column: string) => {
     if (!column || !sampleData[0]) return ''
     return sampleData[0][column] || ''
   }
 
+  // Only explain the pick while the user hasn't changed it
+  const getDetectionReason = (field: ColumnDetection['field'], column: string) => {
+    const detection = detections.find(d => d.field === field)
+    if (!column || detection?.detectedColumn !== column) return null
+    return (
+      <p className="text-xs text-gray-400 mt-0.5">
+        Auto-detected: {detection.reason}
+      </p>
+    )
+  }
+
   const getConfidenceIcon = (confidence: number) => {
     if (confidence >= 0.8) {
       return <CheckCircle className="h-4 w-4 text-green-500" />
@@ -62,23 +214,33 @@ export function FieldMapper({
 
   return (
     <Card className="p-6">
-      <h3 className="text-lg font-semibold mb-4">Map Your Data Fields</h3>
+      <h3 className="text-lg font-semibold mb-4">{title}</h3>
       <p className="text-sm text-gray-600 mb-6">
         Detected {sampleData.length.toLocaleString()} rows
       </p>
 
+      <MappingTemplateBar
+        headers={headers}
+        mapping={mapping}
+        appliedTemplate={appliedTemplate}
+        onApply={applyTemplate}
+      />
+
       <div className="space-y-4">
         {/* Phone Column */}
         <div>
-          <Label htmlFor="phone-column" className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-phone-column`} className="flex items-center gap-2">
             Phone Column *
             {detections.find(d => d.field === 'phone')?.confidence && 
               getConfidenceIcon(detections.find(d => d.field === 'phone')!.confidence)}
           </Label>
           <select
-            id="phone-column"
+            id={`${idPrefix}-phone-column`}
             value={phoneColumn}
-            onChange={(e) => setPhoneColumn(e.target.value)}
+            onChange={(e) => {
+              setPhoneColumn(e.target.value)
+              setAppliedTemplate(undefined)
+            }}
             className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
             required
           >
@@ -92,19 +254,24 @@ export function FieldMapper({
               Sample: {getSampleValue(phoneColumn)}
             </p>
           )}
+          {getDetectionReason('phone', phoneColumn)}
+          {renderTransforms('phone', phoneColumn)}
         </div>
 
         {/* Name Column */}
         <div>
-          <Label htmlFor="name-column" className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-name-column`} className="flex items-center gap-2">
             Name Column
             {detections.find(d => d.field === 'name')?.confidence && 
               getConfidenceIcon(detections.find(d => d.field === 'name')!.confidence)}
           </Label>
           <select
-            id="name-column"
+            id={`${idPrefix}-name-column`}
             value={nameColumn}
-            onChange={(e) => setNameColumn(e.target.value)}
+            onChange={(e) => {
+              setNameColumn(e.target.value)
+              setAppliedTemplate(undefined)
+            }}
             className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
           >
             <option value="">Select column (optional)...</option>
@@ -117,19 +284,24 @@ export function FieldMapper({
               Sample: {getSampleValue(nameColumn)}
             </p>
           )}
+          {getDetectionReason('name', nameColumn)}
+          {renderTransforms('name', nameColumn)}
         </div>
 
         {/* Email Column */}
         <div>
-          <Label htmlFor="email-column" className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-email-column`} className="flex items-center gap-2">
             Email Column
             {detections.find(d => d.field === 'email')?.confidence && 
               getConfidenceIcon(detections.find(d => d.field === 'email')!.confidence)}
           </Label>
           <select
-            id="email-column"
+            id={`${idPrefix}-email-column`}
             value={emailColumn}
-            onChange={(e) => setEmailColumn(e.target.value)}
+            onChange={(e) => {
+              setEmailColumn(e.target.value)
+              setAppliedTemplate(undefined)
+            }}
             className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
           >
             <option value="">Select column (optional)...</option>
@@ -142,8 +314,200 @@ export function FieldMapper({
               Sample: {getSampleValue(emailColumn)}
             </p>
           )}
+          {getDetectionReason('email', emailColumn)}
+          {renderTransforms('email', emailColumn)}
+        </div>
+
+        {/* Country Column */}
+        <div>
+          <Label htmlFor={`${idPrefix}-country-column`} className="flex items-center gap-2">
+            Country Column
+            {detections.find(d => d.field === 'country')?.confidence && 
+              getConfidenceIcon(detections.find(d => d.field === 'country')!.confidence)}
+          </Label>
+          <select
+            id={`${idPrefix}-country-column`}
+            value={countryColumn}
+            onChange={(e) => {
+              setCountryColumn(e.target.value)
+              setAppliedTemplate(undefined)
+            }}
+            className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">None (use the default country)</option>
+            {headers.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+          {countryColumn && (
+            <p className="text-xs text-gray-500 mt-1">
+              Sample: {getSampleValue(countryColumn)}
+            </p>
+          )}
+          {getDetectionReason('country', countryColumn)}
+          {renderTransforms('country', countryColumn)}
+        </div>
+
+        {/* State Column */}
+        <div>
+          <Label htmlFor={`${idPrefix}-state-column`} className="flex items-center gap-2">
+            State Column
+            {detections.find(d => d.field === 'state')?.confidence && 
+              getConfidenceIcon(detections.find(d => d.field === 'state')!.confidence)}
+          </Label>
+          <select
+            id={`${idPrefix}-state-column`}
+            value={stateColumn}
+            onChange={(e) => {
+              setStateColumn(e.target.value)
+              setAppliedTemplate(undefined)
+            }}
+            className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">None (infer from the phone number)</option>
+            {headers.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+          {stateColumn && (
+            <p className="text-xs text-gray-500 mt-1">
+              Sample: {getSampleValue(stateColumn)}
+            </p>
+          )}
+          {getDetectionReason('state', stateColumn)}
+          {renderTransforms('state', stateColumn)}
+        </div>
+
+        {/* Timezone Column */}
+        <div>
+          <Label htmlFor={`${idPrefix}-timezone-column`} className="flex items-center gap-2">
+            Timezone Column
+            {detections.find(d => d.field === 'timezone')?.confidence && 
+              getConfidenceIcon(detections.find(d => d.field === 'timezone')!.confidence)}
+          </Label>
+          <select
+            id={`${idPrefix}-timezone-column`}
+            value={timezoneColumn}
+            onChange={(e) => {
+              setTimezoneColumn(e.target.value)
+              setAppliedTemplate(undefined)
+            }}
+            className="w-full mt-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">None (infer from state or phone number)</option>
+            {headers.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+          {timezoneColumn && (
+            <p className="text-xs text-gray-500 mt-1">
+              Sample: {getSampleValue(timezoneColumn)}
+            </p>
+          )}
+          {getDetectionReason('timezone', timezoneColumn)}
+          {renderTransforms('timezone', timezoneColumn)}
+        </div>
+
+        {/* Dynamic Variables */}
+        <div className="pt-4 border-t">
+          <Label className="flex items-center gap-2">Dynamic Variables</Label>
+          <p className="text-xs text-gray-500 mt-1 mb-3">
+            Send extra columns with each lead, available to the assistant as {'{{variable_name}}'}
+          </p>
+
+          <div className="space-y-3">
+            {variables.map((variable, index) => {
+              const error = getVariableError(variable, index)
+              const isRequired = requiredVariables.includes(variable.name)
+              return (
+                <div key={index}>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={variable.name}
+                      placeholder="variable_name"
+                      readOnly={isRequired}
+                      onChange={(e) => updateVariable(index, { name: e.target.value.trim() })}
+                      className={`flex-1 px-3 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary ${
+                        isRequired ? 'bg-gray-50' : ''
+                      }`}
+                    />
+                    <select
+                      value={variable.column}
+                      onChange={(e) => updateVariable(index, { column: e.target.value })}
+                      className="flex-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="">Select column...</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setVariables(prev => prev.filter((_, i) => i !== index))
+                        setAppliedTemplate(undefined)
+                      }}
+                      disabled={isRequired}
+                      title={isRequired ? 'Used in the assistant prompt' : 'Remove variable'}
+                      className="p-2 hover:bg-gray-100 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                    >
+                      <Trash2 className="h-4 w-4 text-gray-500" />
+                    </button>
+                  </div>
+                  {error ? (
+                    <p className="text-xs text-destructive mt-1">{error}</p>
+                  ) : isRequired && !variable.column ? (
+                    <p className="text-xs text-destructive mt-1">
+                      Required: the assistant prompt uses {`{{${variable.name}}}`}
+                    </p>
+                  ) : variable.column && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Sample: {getSampleValue(variable.column)}
+                    </p>
+                  )}
+                  <TransformEditor
+                    column={variable.column}
+                    headers={headers}
+                    sampleData={sampleData}
+                    transforms={variable.transforms || []}
+                    onChange={(variableTransforms) => updateVariable(index, {
+                      transforms: variableTransforms.length > 0 ? variableTransforms : undefined
+                    })}
+                  />
+                </div>
+              )
+            })}
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setVariables(prev => [...prev, { name: '', column: '' }])
+              setAppliedTemplate(undefined)
+            }}
+            className="mt-3"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add variable
+          </Button>
         </div>
       </div>
     </Card>
   )
+}
+
+function guessVariableColumn(name: string, headers: string[]): string {
+  return headers.find(header => toVariableName(header) === name.toLowerCase()) || ''
+}
+
+function toVariableName(column: string): string {
+  const name = column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return /^[0-9]/.test(name) ? `_${name}` : name
 }
\ No newline at end of file
@@ -5,59 +5,63 @@ import { Upload, X, FileSpreadsheet } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void
+  files: File[]
+  onFilesChange: (files: File[]) => void
   accept?: string
-  maxSize?: number // in MB
+  maxSize?: number // in MB, per file
   className?: string
 }
 
 export function FileUpload({
-  onFileSelect,
-  accept = '.csv,.xlsx,.xls',
+  files,
+  onFilesChange,
+  accept = '.csv,.tsv,.xlsx,.xls',
   maxSize = 50,
   className
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
-  const [file, setFile] = useState<File | null>(null)
   const [error, setError] = useState<string | null>(null)
 
-  const validateFile = (file: File): boolean => {
-    setError(null)
-    
+  const validateFile = (file: File): string | null => {
     // Check file size
     const sizeMB = file.size / (1024 * 1024)
     if (sizeMB > maxSize) {
-      setError(`File size must be less than ${maxSize}MB`)
-      return false
+      return `${file.name}: file size must be less than ${maxSize}MB`
     }
     
     // Check file type
     const extension = file.name.split('.').pop()?.toLowerCase()
     const acceptedExtensions = accept.split(',').map(ext => ext.replace('.', ''))
     if (extension && !acceptedExtensions.includes(extension)) {
-      setError('Please upload a CSV or Excel file')
-      return false
+      return `${file.name}: please upload a CSV or Excel file`
     }
     
-    return true
+    return null
   }
 
-  const handleFile = useCallback((file: File) => {
-    if (validateFile(file)) {
-      setFile(file)
-      onFileSelect(file)
+  const handleFiles = useCallback((newFiles: File[]) => {
+    const errors: string[] = []
+    const accepted = newFiles.filter(file => {
+      const fileError = validateFile(file)
+      if (fileError) errors.push(fileError)
+      return !fileError
+    })
+
+    setError(errors.length > 0 ? errors.join('; ') : null)
+    if (accepted.length > 0) {
+      onFilesChange([...files, ...accepted])
     }
-  }, [onFileSelect, maxSize])
+  }, [files, onFilesChange, maxSize])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
     
-    const droppedFile = e.dataTransfer.files[0]
-    if (droppedFile) {
-      handleFile(droppedFile)
+    const droppedFiles = Array.from(e.dataTransfer.files)
+    if (droppedFiles.length > 0) {
+      handleFiles(droppedFiles)
     }
-  }, [handleFile])
+  }, [handleFiles])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -70,53 +74,66 @@ export function FileUpload({
   }, [])
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile) {
-      handleFile(selectedFile)
+    const selectedFiles = Array.from(e.target.files || [])
+    if (selectedFiles.length > 0) {
+      handleFiles(selectedFiles)
     }
-  }, [handleFile])
+    // Allow picking the same file again after removing it
+    e.target.value = ''
+  }, [handleFiles])
 
-  const removeFile = () => {
-    setFile(null)
+  const removeFile = (index: number) => {
+    onFilesChange(files.filter((_, i) => i !== index))
     setError(null)
   }
 
   return (
-    <div className={cn('w-full', className)}>
-      {!file ? (
-        <div
-          onDrop={handleDrop}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          className={cn(
-            'border-2 border-dashed rounded-lg p-8 text-center transition-colors',
-            isDragging 
-              ? 'border-primary bg-primary/5' 
-              : 'border-gray-300 hover:border-gray-400',
-            error && 'border-destructive'
-          )}
+    <div className={cn('w-full space-y-3', className)}>
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        className={cn(
+          'border-2 border-dashed rounded-lg p-8 text-center transition-colors',
+          isDragging 
+            ? 'border-primary bg-primary/5' 
+            : 'border-gray-300 hover:border-gray-400',
+          error && 'border-destructive',
+          files.length > 0 && 'p-4'
+        )}
+      >
+        <input
+          type="file"
+          accept={accept}
+          multiple
+          onChange={handleFileInput}
+          className="hidden"
+          id="file-upload"
+        />
+        <label
+          htmlFor="file-upload"
+          className="cursor-pointer flex flex-col items-center gap-3"
         >
-          <input
-            type="file"
-            accept={accept}
-            onChange={handleFileInput}
-            className="hidden"
-            id="file-upload"
-          />
-          <label
-            htmlFor="file-upload"
-            className="cursor-pointer flex flex-col items-center gap-3"
-          >
-            <Upload className="h-10 w-10 text-gray-400" />
-            <div>
-              <p className="text-sm font-medium">Drop Excel/CSV here</p>
-              <p className="text-xs text-gray-500">or click to browse</p>
-              <p className="text-xs text-gray-400 mt-2">Max: 100,000 rows</p>
-            </div>
-          </label>
-        </div>
-      ) : (
-        <div className="border rounded-lg p-4 bg-gray-50">
+          {files.length === 0 ? (
+            <>
+              <Upload className="h-10 w-10 text-gray-400" />
+              <div>
+                <p className="text-sm font-medium">Drop Excel/CSV files here</p>
+                <p className="text-xs text-gray-500">or click to browse - you can select several</p>
+                <p className="text-xs text-gray-400 mt-2">CSV/TSV: no row limit · Excel: max 100,000 rows</p>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm font-medium flex items-center gap-2">
+              <Upload className="h-4 w-4 text-gray-400" />
+              Add more files
+            </p>
+          )}
+        </label>
+      </div>
+
+      {files.map((file, index) => (
+        <div key={`${file.name}-${index}`} className="border rounded-lg p-4 bg-gray-50">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <FileSpreadsheet className="h-8 w-8 text-primary" />
@@ -128,17 +145,17 @@ export function FileUpload({
               </div>
             </div>
             <button
-              onClick={removeFile}
+              onClick={() => removeFile(index)}
               className="p-1 hover:bg-gray-200 rounded transition-colors"
             >
               <X className="h-4 w-4" />
             </button>
           </div>
         </div>
-      )}
+      ))}
       
       {error && (
-        <p className="text-sm text-destructive mt-2">{error}</p>
+        <p className="text-sm text-destructive">{error}</p>
       )}
     </div>
   )
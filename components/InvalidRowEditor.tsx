@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { RowValidation, RowCorrection, isCorrectable } from '@/lib/dataValidator'
+import { CheckCircle2, PencilLine, RotateCw } from 'lucide-react'
+
+// Rows rendered before the "Show more" button
+const PAGE_SIZE = 50
+
+interface InvalidRowEditorProps {
+  // Every validated row; only the correctable ones are listed
+  rows: RowValidation[]
+  validLeads: number
+  onRevalidate: (position: number, correction: RowCorrection) => void
+  onBack: () => void
+  onConfirm: () => void
+}
+
+export function InvalidRowEditor({
+  rows,
+  validLeads,
+  onRevalidate,
+  onBack,
+  onConfirm
+}: InvalidRowEditorProps) {
+  // Fixed on mount, so corrected rows stay listed
+  const [positions] = useState(() => {
+    const correctable: number[] = []
+    rows.forEach((row, position) => {
+      if (isCorrectable(row)) correctable.push(position)
+    })
+    return correctable
+  })
+  const [drafts, setDrafts] = useState<Record<number, RowCorrection>>(() => {
+    const initial: Record<number, RowCorrection> = {}
+    positions.forEach(position => {
+      const input = rows[position].input!
+      initial[position] = { phone: input.phone, email: input.email }
+    })
+    return initial
+  })
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+
+  const fixedCount = positions.filter(position => rows[position].errors.length === 0).length
+
+  const updateDraft = (position: number, field: keyof RowCorrection, value: string) => {
+    setDrafts(prev => ({ ...prev, [position]: { ...prev[position], [field]: value } }))
+  }
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <PencilLine className="h-5 w-5" />
+        Fix Invalid Rows
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        {positions.length.toLocaleString()} rows have an invalid phone number or email
+        {fixedCount > 0 && `, ${fixedCount.toLocaleString()} fixed`}.
+        Correct a value and press Recheck; rows that pass are added to the campaign.
+      </p>
+
+      <div className="border rounded-md overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-gray-50 text-left text-gray-600">
+              <th className="py-2 px-3 font-medium">Row</th>
+              <th className="py-2 px-3 font-medium">Phone</th>
+              <th className="py-2 px-3 font-medium">Email</th>
+              <th className="py-2 px-3 font-medium">Status</th>
+              <th className="py-2 px-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {positions.slice(0, visibleCount).map(position => {
+              const row = rows[position]
+              const draft = drafts[position]
+              const fixed = row.errors.length === 0
+              const changed = draft.phone !== row.input?.phone || draft.email !== row.input?.email
+              return (
+                <tr key={position} className={`border-b last:border-0 align-top ${fixed ? 'bg-green-50' : ''}`}>
+                  <td className="py-2 px-3 whitespace-nowrap text-gray-600">
+                    {row.file && <span className="block text-xs">{row.file}{row.sheet && `, ${row.sheet}`}</span>}
+                    Row {row.rowIndex}
+                  </td>
+                  <td className="py-2 px-3">
+                    <input
+                      type="text"
+                      value={draft.phone}
+                      disabled={fixed}
+                      onChange={(e) => updateDraft(position, 'phone', e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && onRevalidate(position, draft)}
+                      className="w-full min-w-[10rem] px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary disabled:bg-transparent disabled:border-transparent"
+                    />
+                  </td>
+                  <td className="py-2 px-3">
+                    <input
+                      type="text"
+                      value={draft.email}
+                      disabled={fixed}
+                      onChange={(e) => updateDraft(position, 'email', e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && onRevalidate(position, draft)}
+                      className="w-full min-w-[10rem] px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary disabled:bg-transparent disabled:border-transparent"
+                    />
+                  </td>
+                  <td className="py-2 px-3 text-xs">
+                    {fixed ? (
+                      <span className="flex items-center gap-1 text-green-700">
+                        <CheckCircle2 className="h-3 w-3" />
+                        Valid
+                      </span>
+                    ) : (
+                      <span className="text-destructive">{row.errors.join(', ')}</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-3">
+                    {!fixed && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!changed}
+                        onClick={() => onRevalidate(position, draft)}
+                      >
+                        <RotateCw className="h-3 w-3 mr-1" />
+                        Recheck
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {positions.length > visibleCount && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+          className="mb-6"
+        >
+          Show more ({(positions.length - visibleCount).toLocaleString()} remaining)
+        </Button>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Back
+        </Button>
+        <Button onClick={onConfirm} disabled={validLeads === 0} className="flex-1">
+          Continue with {validLeads.toLocaleString()} valid leads
+        </Button>
+      </div>
+    </Card>
+  )
+}
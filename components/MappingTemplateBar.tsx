@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { ColumnMapping } from '@/lib/fileParser'
+import {
+  MappingTemplate,
+  TEMPLATES_CHANGED_EVENT,
+  loadTemplates,
+  saveTemplate,
+  deleteTemplate,
+  exportTemplates,
+  importTemplates,
+  getHeaderSignature
+} from '@/lib/mappingTemplates'
+import { Bookmark, Download, Upload, Trash2 } from 'lucide-react'
+
+interface MappingTemplateBarProps {
+  headers: string[]
+  mapping: ColumnMapping
+  // Name of the template currently applied, if the user hasn't changed anything since
+  appliedTemplate?: string
+  onApply: (template: MappingTemplate) => void
+}
+
+export function MappingTemplateBar({
+  headers,
+  mapping,
+  appliedTemplate,
+  onApply
+}: MappingTemplateBarProps) {
+  const [templates, setTemplates] = useState<MappingTemplate[]>([])
+  const [selectedId, setSelectedId] = useState('')
+  const [saveName, setSaveName] = useState('')
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const refresh = () => setTemplates(loadTemplates())
+    refresh()
+    window.addEventListener(TEMPLATES_CHANGED_EVENT, refresh)
+    return () => window.removeEventListener(TEMPLATES_CHANGED_EVENT, refresh)
+  }, [])
+
+  const signature = getHeaderSignature(headers)
+  const selected = templates.find(template => template.id === selectedId)
+
+  const handleSave = () => {
+    if (!saveName.trim() || !mapping.phoneColumn) return
+    const existing = templates.find(template => template.name === saveName.trim())
+    if (existing && !confirm(`Replace the existing template "${existing.name}"?`)) return
+    const template = saveTemplate(saveName, headers, mapping)
+    setSelectedId(template.id)
+    setSaveName('')
+  }
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`Delete the template "${selected.name}"?`)) return
+    deleteTemplate(selected.id)
+    setSelectedId('')
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportTemplates()], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'mapping-templates.json'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const count = importTemplates(await file.text())
+      alert(`Imported ${count} template${count === 1 ? '' : 's'}`)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import templates')
+    }
+  }
+
+  const inputClassName = 'px-3 py-1.5 border rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="mb-6 p-3 border rounded-lg bg-gray-50 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Bookmark className="h-4 w-4" />
+        Mapping Templates
+        {appliedTemplate && (
+          <span className="text-xs font-normal text-green-700">
+            Applied &quot;{appliedTemplate}&quot;
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className={`flex-1 ${inputClassName}`}
+        >
+          <option value="">
+            {templates.length === 0 ? 'No saved templates' : 'Choose a template...'}
+          </option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+              {template.headerSignature === signature ? ' (matches these columns)' : ''}
+            </option>
+          ))}
+        </select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!selected}
+          onClick={() => selected && onApply(selected)}
+        >
+          Apply
+        </Button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={!selected}
+          title="Delete template"
+          className="p-2 hover:bg-gray-100 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <Trash2 className="h-4 w-4 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={saveName}
+          placeholder="Template name"
+          onChange={(e) => setSaveName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave()
+          }}
+          className={`flex-1 ${inputClassName}`}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!saveName.trim() || !mapping.phoneColumn}
+          onClick={handleSave}
+        >
+          Save current
+        </Button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={templates.length === 0}
+          title="Export templates"
+          className="p-2 hover:bg-gray-100 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <Download className="h-4 w-4 text-gray-500" />
+        </button>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          title="Import templates"
+          className="p-2 hover:bg-gray-100 rounded transition-colors"
+        >
+          <Upload className="h-4 w-4 text-gray-500" />
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import { Label } from '@/components/ui/label'
+import { FileFormat } from '@/lib/fileParser'
+import { SlidersHorizontal } from 'lucide-react'
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe'
+}
+
+const ENCODING_LABELS: Record<string, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252'
+}
+
+interface ParseOptionsPanelProps {
+  fileName: string
+  // Workbooks have no delimiter or encoding, and detect the header row per sheet
+  isWorkbook: boolean
+  format: FileFormat
+  detectedFormat: FileFormat
+  overrides: Partial<FileFormat>
+  onChange: (overrides: Partial<FileFormat>) => void
+}
+
+export function ParseOptionsPanel({
+  fileName,
+  isWorkbook,
+  format,
+  detectedFormat,
+  overrides,
+  onChange
+}: ParseOptionsPanelProps) {
+  const [open, setOpen] = useState(false)
+  // Header row is applied on blur, so typing "12" doesn't re-parse at row 1 first
+  const [headerRowDraft, setHeaderRowDraft] = useState(
+    overrides.headerRow !== undefined ? String(overrides.headerRow + 1) : ''
+  )
+
+  const setOverride = <K extends keyof FileFormat>(key: K, value: FileFormat[K] | undefined) => {
+    const next = { ...overrides }
+    if (value === undefined) {
+      delete next[key]
+    } else {
+      next[key] = value
+    }
+    onChange(next)
+  }
+
+  const summary = isWorkbook
+    ? overrides.headerRow !== undefined ? `Header on row ${overrides.headerRow + 1}` : 'Header row detected per sheet'
+    : `${DELIMITER_LABELS[format.delimiter!] || format.delimiter} · ${ENCODING_LABELS[format.encoding!] || format.encoding} · header on row ${format.headerRow + 1}`
+
+  const selectClassName = 'w-full mt-1 px-3 py-2 border rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="mt-3 border rounded-lg bg-white">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-gray-50 rounded-lg transition-colors"
+      >
+        <span className="text-xs text-gray-600 truncate">
+          <span className="font-medium text-gray-800">{fileName}</span>: {summary}
+        </span>
+        <SlidersHorizontal className="h-4 w-4 text-gray-500 shrink-0" />
+      </button>
+
+      {open && (
+        <div className="grid grid-cols-3 gap-3 px-3 pb-3">
+          {!isWorkbook && (
+            <>
+              <div>
+                <Label className="text-xs text-gray-600">Delimiter</Label>
+                <select
+                  value={overrides.delimiter ?? ''}
+                  onChange={(e) => setOverride('delimiter', e.target.value || undefined)}
+                  className={selectClassName}
+                >
+                  <option value="">Auto ({DELIMITER_LABELS[detectedFormat.delimiter!]})</option>
+                  {Object.keys(DELIMITER_LABELS).map(delimiter => (
+                    <option key={delimiter} value={delimiter}>{DELIMITER_LABELS[delimiter]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">Encoding</Label>
+                <select
+                  value={overrides.encoding ?? ''}
+                  onChange={(e) => setOverride('encoding', e.target.value || undefined)}
+                  className={selectClassName}
+                >
+                  <option value="">Auto ({ENCODING_LABELS[detectedFormat.encoding!]})</option>
+                  {Object.keys(ENCODING_LABELS).map(encoding => (
+                    <option key={encoding} value={encoding}>{ENCODING_LABELS[encoding]}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          <div>
+            <Label className="text-xs text-gray-600">Header row</Label>
+            <input
+              type="number"
+              min={1}
+              value={headerRowDraft}
+              placeholder={isWorkbook ? 'Auto' : `Auto (${detectedFormat.headerRow + 1})`}
+              onChange={(e) => setHeaderRowDraft(e.target.value)}
+              onBlur={() => {
+                const row = parseInt(headerRowDraft, 10)
+                const headerRow = row >= 1 ? row - 1 : undefined
+                if (headerRow !== overrides.headerRow) {
+                  setOverride('headerRow', headerRow)
+                }
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur()
+              }}
+              className={selectClassName}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { Progress } from '@/components/ui/progress'
 import { CheckCircle, Loader2, Clock } from 'lucide-react'
 import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
 
 export interface ProgressStep {
   label: string
@@ -15,13 +16,18 @@ interface ProgressTrackerProps {
   progress: number
   timeElapsed?: string
   estimatedRemaining?: string
+  // Shows a Cancel button while processing can still be stopped
+  onCancel?: () => void
+  cancelling?: boolean
 }
 
 export function ProgressTracker({
   steps,
   progress,
   timeElapsed,
-  estimatedRemaining
+  estimatedRemaining,
+  onCancel,
+  cancelling = false
 }: ProgressTrackerProps) {
   const getStepIcon = (status: ProgressStep['status']) => {
     switch (status) {
@@ -78,6 +84,17 @@ export function ProgressTracker({
           )}
         </div>
       )}
+
+      {onCancel && (
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          disabled={cancelling}
+          className="w-full mt-6"
+        >
+          {cancelling ? 'Cancelling after the current step...' : 'Cancel'}
+        </Button>
+      )}
     </Card>
   )
 }
\ No newline at end of file
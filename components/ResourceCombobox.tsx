@@ -0,0 +1,197 @@
+'use client'
+
+import { useState, useMemo, useRef } from 'react'
+import { Input } from '@/components/ui/input'
+import { ChevronDown, Check, Pin } from 'lucide-react'
+
+export interface ResourceOption {
+  id: string
+  name: string
+  // Shown next to the ID, e.g. the phone number of a named number
+  detail?: string
+  createdAt?: string
+}
+
+interface ResourceComboboxProps {
+  id?: string
+  options: ResourceOption[]
+  value: string
+  onChange: (id: string) => void
+  placeholder: string
+  // Pinned above the other options, most recently used first
+  recentIds?: string[]
+  // Set while Vapi has more pages than the options loaded so far
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+}
+
+// Rendering thousands of rows makes typing sluggish; searching narrows the list instead
+const MAX_SHOWN = 200
+
+function formatCreatedAt(value: string) {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? '' : `Created ${date.toLocaleDateString(undefined, { dateStyle: 'medium' })}`
+}
+
+export function ResourceCombobox({
+  id,
+  options,
+  value,
+  onChange,
+  placeholder,
+  recentIds = [],
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
+}: ResourceComboboxProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [highlighted, setHighlighted] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const selected = options.find(option => option.id === value)
+
+  // Recently used options first, then the rest in Vapi's order (newest first)
+  const { pinned, others } = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    const matches = search
+      ? options.filter(option =>
+          [option.name, option.id, option.detail || ''].some(text => text.toLowerCase().includes(search))
+        )
+      : options
+    const pinned = recentIds
+      .map(recentId => matches.find(option => option.id === recentId))
+      .filter((option): option is ResourceOption => Boolean(option))
+    return {
+      pinned,
+      others: matches.filter(option => recentIds.indexOf(option.id) === -1)
+    }
+  }, [options, query, recentIds])
+  const visible = [...pinned, ...others.slice(0, MAX_SHOWN)]
+  const hiddenCount = others.length - Math.min(others.length, MAX_SHOWN)
+
+  const choose = (option: ResourceOption) => {
+    onChange(option.id)
+    setOpen(false)
+    setQuery('')
+  }
+
+  const moveHighlight = (index: number) => {
+    const next = Math.max(0, Math.min(visible.length - 1, index))
+    setHighlighted(next)
+    listRef.current?.querySelector(`[data-index="${next}"]`)?.scrollIntoView({ block: 'nearest' })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      if (!open) setOpen(true)
+      moveHighlight(open ? highlighted + 1 : 0)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      moveHighlight(highlighted - 1)
+    } else if (e.key === 'Enter' && open && visible[highlighted]) {
+      e.preventDefault()
+      choose(visible[highlighted])
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+      setQuery('')
+    }
+  }
+
+  const renderOption = (option: ResourceOption, index: number) => (
+    <div
+      key={option.id}
+      data-index={index}
+      role="option"
+      aria-selected={option.id === value}
+      // Keep focus in the input so its blur doesn't close the list before the click lands
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => choose(option)}
+      onMouseEnter={() => setHighlighted(index)}
+      className={`flex items-start gap-2 px-3 py-2 cursor-pointer ${index === highlighted ? 'bg-blue-50' : ''}`}
+    >
+      <Check className={`h-4 w-4 mt-0.5 shrink-0 ${option.id === value ? 'text-blue-600' : 'invisible'}`} />
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-medium truncate">{option.name}</div>
+        <div className="flex justify-between gap-2 text-xs text-gray-500">
+          <span className="font-mono truncate">
+            {option.detail ? `${option.detail} · ${option.id}` : option.id}
+          </span>
+          {option.createdAt && <span className="shrink-0">{formatCreatedAt(option.createdAt)}</span>}
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="relative mt-2">
+      <Input
+        id={id}
+        role="combobox"
+        aria-expanded={open}
+        autoComplete="off"
+        placeholder={selected ? selected.name : placeholder}
+        value={open ? query : selected ? selected.name : ''}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setHighlighted(0)
+          setOpen(true)
+        }}
+        onFocus={() => {
+          setOpen(true)
+          setHighlighted(0)
+        }}
+        onBlur={() => {
+          setOpen(false)
+          setQuery('')
+        }}
+        onKeyDown={handleKeyDown}
+        className="h-11 pr-9 bg-white shadow-sm border-gray-200 focus:border-blue-500 focus:ring-blue-500"
+      />
+      <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+
+      {open && (
+        <div
+          ref={listRef}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full max-h-72 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {visible.length === 0 && (
+            <p className="px-3 py-2 text-sm text-gray-500">No matches for &quot;{query}&quot;</p>
+          )}
+          {pinned.length > 0 && (
+            <>
+              <p className="flex items-center gap-1 px-3 pt-2 pb-1 text-xs font-semibold text-gray-500">
+                <Pin className="h-3 w-3" />
+                Recently used
+              </p>
+              {pinned.map((option, index) => renderOption(option, index))}
+              {others.length > 0 && <div className="border-t my-1" />}
+            </>
+          )}
+          {others.slice(0, MAX_SHOWN).map((option, index) => renderOption(option, pinned.length + index))}
+          {hiddenCount > 0 && (
+            <p className="px-3 py-2 text-xs text-gray-500">
+              {hiddenCount.toLocaleString()} more - type to search by name or ID
+            </p>
+          )}
+          {hasMore && onLoadMore && (
+            <button
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onLoadMore}
+              disabled={loadingMore}
+              className="w-full border-t px-3 py-2 text-left text-xs text-blue-700 hover:bg-blue-50 disabled:text-gray-500"
+            >
+              {loadingMore
+                ? 'Loading more...'
+                : `Only the ${options.length.toLocaleString()} newest are loaded - load older ones from Vapi`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
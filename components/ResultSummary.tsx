@@ -2,36 +2,94 @@
 
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { CheckCircle, AlertCircle, Download, RefreshCw } from 'lucide-react'
+import { CheckCircle, AlertCircle, Download, RefreshCw, RotateCcw } from 'lucide-react'
+import { FileSummary, LineTypeSummary } from '@/lib/dataValidator'
+import { FailedBatch } from '@/lib/uploadJobs'
+import { LINE_TYPE_LABELS } from '@/lib/phoneFormatter'
+import { UNKNOWN_TIMEZONE } from '@/lib/timezone'
 
 interface ResultSummaryProps {
   success: boolean
+  // The campaigns exist but some batches of leads were not uploaded
+  partial?: boolean
+  failedBatches?: FailedBatch[]
   campaignId?: string
+  // Every campaign created, when the leads were split into timezone waves
+  campaigns?: Array<{
+    name: string
+    campaignId: string
+    leads: number
+    startsAt?: string
+  }>
   totalLeads: number
   validLeads: number
   invalidLeads: number
   duplicates: number
+  // Leads dropped because their number is on a do-not-call list
+  suppressed?: number
+  suppressionCounts?: Record<string, number>
   timeElapsed: string
   errors?: Array<{
     rowIndex: number
+    file?: string
+    sheet?: string
+    region?: string
     errors: string[]
   }>
+  fileSummaries?: FileSummary[]
+  // Valid leads per region their number was parsed under
+  regionCounts?: Record<string, number>
+  lineTypeSummaries?: LineTypeSummary[]
+  // Valid leads per IANA timezone
+  timezoneCounts?: Record<string, number>
+  // Scheduled calling window of a single campaign, as ISO instants
+  schedule?: {
+    startsAt: string
+    endsAt?: string
+    timezone: string
+  }
+  // Leads with an empty value per assistant prompt variable
+  missingVariables?: Record<string, number>
+  onRetryFailed?: () => void
   onDownloadReport?: () => void
   onCreateAnother?: () => void
 }
 
+// Failed leads listed before the rest are left to the report
+const FAILED_LEADS_SHOWN = 100
+
 export function ResultSummary({
   success,
+  partial = false,
+  failedBatches = [],
   campaignId,
+  campaigns = [],
   totalLeads,
   validLeads,
   invalidLeads,
   duplicates,
+  suppressed = 0,
+  suppressionCounts = {},
   timeElapsed,
   errors = [],
+  fileSummaries = [],
+  regionCounts = {},
+  lineTypeSummaries = [],
+  timezoneCounts = {},
+  schedule,
+  missingVariables = {},
+  onRetryFailed,
   onDownloadReport,
   onCreateAnother
 }: ResultSummaryProps) {
+  const formatScheduleTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, {
+      timeZone: schedule?.timezone,
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    })
+  const failedLeads = failedBatches.flatMap(batch => batch.leads)
+
   return (
     <Card className="p-8">
       <div className="text-center mb-6">
@@ -40,6 +98,14 @@ export function ResultSummary({
             <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
             <h2 className="text-2xl font-bold mb-2">Campaign Created!</h2>
           </>
+        ) : partial ? (
+          <>
+            <AlertCircle className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold mb-2">Campaign Partially Created</h2>
+            <p className="text-gray-600">
+              {failedLeads.length.toLocaleString()} leads were not uploaded
+            </p>
+          </>
         ) : (
           <>
             <AlertCircle className="h-16 w-16 text-destructive mx-auto mb-4" />
@@ -49,12 +115,23 @@ export function ResultSummary({
       </div>
 
       <div className="space-y-3 mb-6">
-        {campaignId && (
+        {campaignId && campaigns.length <= 1 && (
           <div className="flex justify-between">
             <span className="text-gray-600">Campaign ID:</span>
             <span className="font-mono text-sm">{campaignId}</span>
           </div>
         )}
+
+        {schedule && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Schedule:</span>
+            <span className="text-sm text-right">
+              Starts {formatScheduleTime(schedule.startsAt)}
+              {schedule.endsAt && <>, ends {formatScheduleTime(schedule.endsAt)}</>}
+              <span className="block text-xs text-gray-500">{schedule.timezone}</span>
+            </span>
+          </div>
+        )}
         
         <div className="flex justify-between">
           <span className="text-gray-600">Total Leads:</span>
@@ -86,19 +163,192 @@ export function ResultSummary({
           </div>
         )}
         
+        {suppressed > 0 && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Suppressed (Do-Not-Call):</span>
+            <span className="font-semibold text-orange-600">
+              {suppressed.toLocaleString()}
+            </span>
+          </div>
+        )}
+        
         <div className="flex justify-between">
           <span className="text-gray-600">Time Taken:</span>
           <span>{timeElapsed}</span>
         </div>
       </div>
 
+      {failedBatches.length > 0 && (
+        <div className="mb-6 p-4 bg-destructive/10 rounded-md">
+          <h4 className="text-sm font-semibold mb-2">Failed Batches:</h4>
+          {failedBatches.map(batch => (
+            <div key={`${batch.campaignName}-${batch.batchNumber}`} className="text-xs text-gray-700 mb-1">
+              {campaigns.length > 1 && `${batch.campaignName}, `}Batch {batch.batchNumber}
+              {' '}({batch.leads.length.toLocaleString()} leads): {batch.error || 'Not sent'}
+            </div>
+          ))}
+
+          <h4 className="text-sm font-semibold mt-3 mb-2">Leads Not Uploaded:</h4>
+          <div className="max-h-40 overflow-y-auto">
+            {failedLeads.slice(0, FAILED_LEADS_SHOWN).map((lead, index) => (
+              <div key={index} className="flex justify-between gap-2 text-xs text-gray-700">
+                <span className="truncate">{lead.name}</span>
+                <span className="font-mono shrink-0">{lead.number}</span>
+              </div>
+            ))}
+            {failedLeads.length > FAILED_LEADS_SHOWN && (
+              <p className="text-xs text-gray-500 mt-2">
+                ...and {(failedLeads.length - FAILED_LEADS_SHOWN).toLocaleString()} more in the report
+              </p>
+            )}
+          </div>
+
+          {onRetryFailed && (
+            <Button size="sm" onClick={onRetryFailed} className="mt-3">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry Failed Batches
+            </Button>
+          )}
+        </div>
+      )}
+
+      {campaigns.length > 1 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">Campaigns:</h4>
+          <div className="space-y-2">
+            {campaigns.map(campaign => (
+              <div key={campaign.campaignId} className="text-sm border-b last:border-0 pb-2">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium truncate">{campaign.name}</span>
+                  <span className="text-gray-600 shrink-0">{campaign.leads.toLocaleString()} leads</span>
+                </div>
+                <div className="flex justify-between gap-2 text-xs text-gray-500">
+                  <span className="font-mono">{campaign.campaignId}</span>
+                  {campaign.startsAt && <span>Starts {new Date(campaign.startsAt).toLocaleString()}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {fileSummaries.length > 1 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">By File:</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1 font-medium">File</th>
+                <th className="py-1 font-medium text-right">Valid</th>
+                <th className="py-1 font-medium text-right">Invalid</th>
+                <th className="py-1 font-medium text-right">Duplicates</th>
+                {suppressed > 0 && <th className="py-1 font-medium text-right">Suppressed</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {fileSummaries.map(summary => (
+                <tr key={summary.file} className="border-b last:border-0">
+                  <td className="py-1 truncate max-w-[12rem]">{summary.file}</td>
+                  <td className="py-1 text-right text-green-600">{summary.validRows.toLocaleString()}</td>
+                  <td className="py-1 text-right text-destructive">{summary.invalidRows.toLocaleString()}</td>
+                  <td className="py-1 text-right text-yellow-600">{summary.duplicateRows.toLocaleString()}</td>
+                  {suppressed > 0 && (
+                    <td className="py-1 text-right text-orange-600">{summary.suppressedRows.toLocaleString()}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {Object.keys(suppressionCounts).length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">Do-Not-Call Lists:</h4>
+          {Object.keys(suppressionCounts).map(list => (
+            <div key={list} className="flex justify-between text-sm">
+              <span className="truncate text-gray-600">{list}</span>
+              <span className="text-orange-600">{suppressionCounts[list].toLocaleString()} suppressed</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {Object.keys(regionCounts).length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">By Region:</h4>
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(regionCounts).map(region => (
+              <span key={region} className="px-2 py-1 bg-gray-100 rounded text-xs">
+                {region}: {regionCounts[region].toLocaleString()}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {Object.keys(timezoneCounts).length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">By Timezone:</h4>
+          <div className="flex flex-wrap gap-2">
+            {Object.keys(timezoneCounts).map(timezone => (
+              <span
+                key={timezone}
+                className={`px-2 py-1 rounded text-xs ${
+                  timezone === UNKNOWN_TIMEZONE ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100'
+                }`}
+              >
+                {timezone}: {timezoneCounts[timezone].toLocaleString()}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {lineTypeSummaries.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-semibold mb-2">By Line Type:</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1 font-medium">Type</th>
+                <th className="py-1 font-medium text-right">Valid</th>
+                <th className="py-1 font-medium text-right">Excluded</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lineTypeSummaries.map(summary => (
+                <tr key={summary.lineType} className="border-b last:border-0">
+                  <td className="py-1">{LINE_TYPE_LABELS[summary.lineType]}</td>
+                  <td className="py-1 text-right text-green-600">{summary.validRows.toLocaleString()}</td>
+                  <td className="py-1 text-right text-destructive">{summary.excludedRows.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {Object.keys(missingVariables).length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 rounded-md">
+          <h4 className="text-sm font-semibold mb-2">Empty Prompt Variables:</h4>
+          {Object.keys(missingVariables).map(name => (
+            <div key={name} className="text-xs text-gray-700 mb-1">
+              <span className="font-mono">{`{{${name}}}`}</span>: {missingVariables[name].toLocaleString()} leads have no value
+            </div>
+          ))}
+        </div>
+      )}
+
       {errors.length > 0 && (
         <div className="mb-6 p-4 bg-destructive/10 rounded-md">
           <h4 className="text-sm font-semibold mb-2">Errors Found:</h4>
           <div className="max-h-40 overflow-y-auto">
             {errors.slice(0, 5).map((error, index) => (
               <div key={index} className="text-xs text-gray-700 mb-1">
-                Row {error.rowIndex}: {error.errors.join(', ')}
+                {fileSummaries.length > 1 && error.file && `${error.file}, `}
+                {error.sheet && `${error.sheet}, `}Row {error.rowIndex}
+                {error.region && ` (${error.region})`}: {error.errors.join(', ')}
               </div>
             ))}
             {errors.length > 5 && (
@@ -0,0 +1,72 @@
+'use client'
+
+import { ParsedData } from '@/lib/fileParser'
+import { Table2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface SheetPickerProps {
+  fileName?: string
+  sheets: ParsedData[]
+  // Indexes into sheets
+  selected: number[]
+  onChange: (selected: number[]) => void
+}
+
+export function SheetPicker({
+  fileName,
+  sheets,
+  selected,
+  onChange
+}: SheetPickerProps) {
+  const toggleSheet = (index: number) => {
+    const next = selected.includes(index)
+      ? selected.filter(i => i !== index)
+      : [...selected, index]
+
+    // Keep workbook order so merged leads come out in a predictable order
+    onChange(next.sort((a, b) => a - b))
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-sm font-medium text-gray-700">
+        {fileName ? <span className="font-semibold">{fileName}</span> : 'This workbook'} has {sheets.length} sheets. Select the ones to merge into the campaign:
+      </p>
+      {sheets.map((sheet, index) => {
+        const isEmpty = sheet.totalRows === 0
+        const isSelected = selected.includes(index)
+
+        return (
+          <label
+            key={index}
+            className={cn(
+              'flex items-start gap-3 p-3 border rounded-lg bg-white transition-colors',
+              isSelected ? 'border-blue-500 bg-blue-50/50' : 'border-gray-200',
+              isEmpty ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={isSelected}
+              disabled={isEmpty}
+              onChange={() => toggleSheet(index)}
+              className="mt-1"
+            />
+            <Table2 className="h-4 w-4 mt-0.5 text-gray-500" />
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between gap-2">
+                <span className="text-sm font-medium">{sheet.sheetName}</span>
+                <span className="text-xs text-gray-500">
+                  {sheet.totalRows.toLocaleString()} rows
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 truncate">
+                {isEmpty ? 'No data' : sheet.headers.join(', ')}
+              </p>
+            </div>
+          </label>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Card } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { CountryCode } from 'libphonenumber-js'
+import {
+  SuppressionList,
+  loadSuppressionLists,
+  importSuppressionFile,
+  setSuppressionListEnabled,
+  deleteSuppressionList
+} from '@/lib/suppressionLists'
+import { ShieldOff, Trash2, Upload } from 'lucide-react'
+
+interface SuppressionListManagerProps {
+  // Region for numbers in the uploaded lists that have no +country prefix
+  defaultCountry: CountryCode
+}
+
+export function SuppressionListManager({ defaultCountry }: SuppressionListManagerProps) {
+  const [lists, setLists] = useState<SuppressionList[]>([])
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    setLists(loadSuppressionLists())
+  }, [])
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setImporting(true)
+    setError(null)
+    const errors: string[] = []
+    for (const file of files) {
+      try {
+        await importSuppressionFile(file, defaultCountry)
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : `Failed to import ${file.name}`)
+      }
+    }
+    setLists(loadSuppressionLists())
+    setError(errors.length > 0 ? errors.join('. ') : null)
+    setImporting(false)
+  }
+
+  const handleToggle = (list: SuppressionList) => {
+    setSuppressionListEnabled(list.id, !list.enabled)
+    setLists(loadSuppressionLists())
+  }
+
+  const handleDelete = (list: SuppressionList) => {
+    if (!confirm(`Delete the suppression list "${list.name}"?`)) return
+    deleteSuppressionList(list.id)
+    setLists(loadSuppressionLists())
+  }
+
+  return (
+    <Card className="p-6">
+      <Label className="flex items-center gap-2">
+        <ShieldOff className="h-4 w-4" />
+        Do-Not-Call Lists
+      </Label>
+      <p className="text-xs text-gray-500 mt-1 mb-3">
+        Leads whose number is on an enabled list are never uploaded. Lists are saved in this browser for future campaigns.
+      </p>
+
+      {lists.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {lists.map(list => (
+            <div key={list.id} className="flex items-center gap-3 p-2 border rounded-md">
+              <input
+                type="checkbox"
+                checked={list.enabled}
+                onChange={() => handleToggle(list)}
+                title={list.enabled ? 'Disable list' : 'Enable list'}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{list.name}</p>
+                <p className="text-xs text-gray-500">
+                  {list.numbers.length.toLocaleString()} numbers
+                  {list.skippedRows > 0 && `, ${list.skippedRows.toLocaleString()} unreadable rows skipped`}
+                  {' · added '}{new Date(list.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(list)}
+                title="Delete list"
+                className="p-2 hover:bg-gray-100 rounded transition-colors"
+              >
+                <Trash2 className="h-4 w-4 text-gray-500" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive mb-2">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={importing}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Upload className="h-4 w-4 mr-1" />
+        {importing ? 'Importing...' : 'Upload list'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.txt,.tsv"
+        multiple
+        onChange={handleUpload}
+        className="hidden"
+      />
+    </Card>
+  )
+}
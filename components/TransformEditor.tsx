@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import {
+  ColumnTransform,
+  TransformType,
+  TRANSFORM_LABELS,
+  createTransform,
+  getTransformError,
+  compileTransforms
+} from '@/lib/transforms'
+import { Wand2, Trash2, ArrowRight } from 'lucide-react'
+
+const PREVIEW_ROWS = 3
+
+interface TransformEditorProps {
+  // Source column the pipeline starts from
+  column: string
+  headers: string[]
+  sampleData: Record<string, any>[]
+  transforms: ColumnTransform[]
+  onChange: (transforms: ColumnTransform[]) => void
+}
+
+export function TransformEditor({
+  column,
+  headers,
+  sampleData,
+  transforms,
+  onChange
+}: TransformEditorProps) {
+  const [open, setOpen] = useState(transforms.length > 0)
+
+  const preview = useMemo(() => {
+    const transform = compileTransforms(transforms)
+    return sampleData.slice(0, PREVIEW_ROWS).map(row => ({
+      before: row[column] == null ? '' : String(row[column]),
+      after: transform(row[column], row)
+    }))
+  }, [column, sampleData, transforms])
+
+  const update = (index: number, changes: Partial<ColumnTransform>) => {
+    onChange(transforms.map((t, i) => i === index ? { ...t, ...changes } as ColumnTransform : t))
+  }
+
+  const inputClassName = 'px-2 py-1 border rounded-md bg-white text-xs focus:outline-none focus:ring-2 focus:ring-primary'
+
+  const renderInputs = (transform: ColumnTransform, index: number) => {
+    switch (transform.type) {
+      case 'concat':
+        return (
+          <>
+            <input
+              type="text"
+              value={transform.separator}
+              placeholder="separator"
+              onChange={(e) => update(index, { separator: e.target.value })}
+              className={`w-20 ${inputClassName}`}
+            />
+            <select
+              value={transform.column}
+              onChange={(e) => update(index, { column: e.target.value })}
+              className={`flex-1 ${inputClassName}`}
+            >
+              <option value="">Column to append...</option>
+              {headers.map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </>
+        )
+      case 'split':
+        return (
+          <>
+            <input
+              type="text"
+              value={transform.separator}
+              placeholder="separator"
+              onChange={(e) => update(index, { separator: e.target.value })}
+              className={`w-20 ${inputClassName}`}
+            />
+            <input
+              type="number"
+              value={transform.index >= 0 ? transform.index + 1 : transform.index}
+              title="Part to keep (1 = first, -1 = last)"
+              onChange={(e) => {
+                const part = parseInt(e.target.value, 10) || 1
+                update(index, { index: part > 0 ? part - 1 : part })
+              }}
+              className={`w-16 ${inputClassName}`}
+            />
+          </>
+        )
+      case 'case':
+        return (
+          <select
+            value={transform.mode}
+            onChange={(e) => update(index, { mode: e.target.value as 'lower' | 'upper' | 'title' })}
+            className={`flex-1 ${inputClassName}`}
+          >
+            <option value="lower">lowercase</option>
+            <option value="upper">UPPERCASE</option>
+            <option value="title">Title Case</option>
+          </select>
+        )
+      case 'replace':
+        return (
+          <>
+            <input
+              type="text"
+              value={transform.pattern}
+              placeholder="pattern"
+              onChange={(e) => update(index, { pattern: e.target.value })}
+              className={`flex-1 font-mono ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={transform.replacement}
+              placeholder="replace with"
+              onChange={(e) => update(index, { replacement: e.target.value })}
+              className={`flex-1 font-mono ${inputClassName}`}
+            />
+            <input
+              type="text"
+              value={transform.flags}
+              title="Regex flags"
+              onChange={(e) => update(index, { flags: e.target.value })}
+              className={`w-12 font-mono ${inputClassName}`}
+            />
+          </>
+        )
+      case 'default':
+        return (
+          <input
+            type="text"
+            value={transform.value}
+            placeholder="value when empty"
+            onChange={(e) => update(index, { value: e.target.value })}
+            className={`flex-1 ${inputClassName}`}
+          />
+        )
+      case 'trim':
+        return <span className="flex-1 text-xs text-gray-500">Strips and collapses whitespace</span>
+    }
+  }
+
+  if (!column) return null
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+      >
+        <Wand2 className="h-3 w-3" />
+        Transforms{transforms.length > 0 && ` (${transforms.length})`}
+      </button>
+
+      {open && (
+        <div className="mt-2 p-2 border rounded-md bg-gray-50 space-y-2">
+          {transforms.map((transform, index) => {
+            const error = getTransformError(transform)
+            return (
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <span className="w-24 shrink-0 text-xs font-medium text-gray-700">
+                    {TRANSFORM_LABELS[transform.type]}
+                  </span>
+                  {renderInputs(transform, index)}
+                  <button
+                    type="button"
+                    onClick={() => onChange(transforms.filter((_, i) => i !== index))}
+                    title="Remove transform"
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  >
+                    <Trash2 className="h-3 w-3 text-gray-500" />
+                  </button>
+                </div>
+                {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+              </div>
+            )
+          })}
+
+          <select
+            value=""
+            onChange={(e) => onChange([...transforms, createTransform(e.target.value as TransformType)])}
+            className={inputClassName}
+          >
+            <option value="">Add transform...</option>
+            {(Object.keys(TRANSFORM_LABELS) as TransformType[]).map(type => (
+              <option key={type} value={type}>{TRANSFORM_LABELS[type]}</option>
+            ))}
+          </select>
+
+          {transforms.length > 0 && preview.length > 0 && (
+            <div className="pt-2 border-t space-y-1">
+              {preview.map((row, index) => (
+                <div key={index} className="flex items-center gap-2 text-xs font-mono">
+                  <span className="flex-1 truncate text-gray-500">{row.before || '(empty)'}</span>
+                  <ArrowRight className="h-3 w-3 text-gray-400 shrink-0" />
+                  <span className="flex-1 truncate text-gray-900">{row.after || '(empty)'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
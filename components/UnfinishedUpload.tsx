@@ -0,0 +1,71 @@
+'use client'
+
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { UploadJob, getSentBatches, isCampaignUploaded } from '@/lib/uploadJobs'
+import { History, Play, Trash2 } from 'lucide-react'
+
+interface UnfinishedUploadProps {
+  job: UploadJob
+  // Resuming needs the key of the account the campaigns belong to
+  apiKeyValid: boolean
+  onResume: () => void
+  onDiscard: () => void
+}
+
+export function UnfinishedUpload({ job, apiKeyValid, onResume, onDiscard }: UnfinishedUploadProps) {
+  // The first batch without a confirmation from Vapi, where resuming starts
+  const getFirstUnsent = (sent: number[], totalBatches: number) => {
+    for (let batchNumber = 1; batchNumber <= totalBatches; batchNumber++) {
+      if (sent.indexOf(batchNumber) === -1) return batchNumber
+    }
+    return totalBatches
+  }
+
+  return (
+    <Card className="p-6 mb-8 border-amber-200 bg-amber-50/80">
+      <div className="flex items-start gap-3">
+        <History className="h-6 w-6 text-amber-600 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-amber-900">An upload didn&apos;t finish</h3>
+          <p className="text-sm text-amber-800 mb-3">
+            Started {new Date(job.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}.
+            Resuming sends only the batches Vapi hasn&apos;t confirmed.
+          </p>
+
+          <div className="space-y-1 mb-4">
+            {job.campaigns.map((campaign, index) => {
+              const sent = getSentBatches(campaign)
+              return (
+                <div key={index} className="flex justify-between gap-2 text-sm">
+                  <span className="truncate">{campaign.name}</span>
+                  <span className="text-amber-800 shrink-0">
+                    {isCampaignUploaded(campaign)
+                      ? 'Uploaded'
+                      : !campaign.campaignId
+                      ? 'Not created yet'
+                      : `${sent.length} of ${campaign.totalBatches} batches confirmed, resumes at batch ${getFirstUnsent(sent, campaign.totalBatches)}`}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button size="sm" onClick={onResume} disabled={!apiKeyValid}>
+              <Play className="h-4 w-4 mr-1" />
+              Resume upload
+            </Button>
+            <Button size="sm" variant="outline" onClick={onDiscard}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Discard
+            </Button>
+            {!apiKeyValid && (
+              <span className="text-xs text-amber-800">Enter your API key below to resume</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </Card>
+  )
+}
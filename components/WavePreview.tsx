@@ -0,0 +1,105 @@
+'use client'
+
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CampaignWave, getWaveCampaignName } from '@/lib/campaignWaves'
+import { UNKNOWN_TIMEZONE } from '@/lib/timezone'
+import { CalendarClock, AlertCircle } from 'lucide-react'
+
+interface WavePreviewProps {
+  campaignName: string
+  waves: CampaignWave[]
+  // Anything that must be fixed before the campaigns can be created
+  errors?: string[]
+  onBack: () => void
+  onConfirm: () => void
+}
+
+export function WavePreview({
+  campaignName,
+  waves,
+  errors = [],
+  onBack,
+  onConfirm
+}: WavePreviewProps) {
+  const totalLeads = waves.reduce((sum, wave) => sum + wave.leads.length, 0)
+
+  const formatTime = (date: Date, timeZone?: string) =>
+    date.toLocaleString(undefined, {
+      timeZone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <CalendarClock className="h-5 w-5" />
+        Review Timezone Waves
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        {waves.length} campaigns will be created for {totalLeads.toLocaleString()} leads, each starting at the same local time
+      </p>
+
+      <table className="w-full text-sm mb-6">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-2 font-medium">Campaign</th>
+            <th className="py-2 font-medium text-right">Leads</th>
+            <th className="py-2 font-medium">Local start</th>
+            <th className="py-2 font-medium">Your time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {waves.map(wave => (
+            <tr key={wave.timezone} className="border-b last:border-0 align-top">
+              <td className="py-2">
+                <p className="font-medium">{getWaveCampaignName(campaignName, wave)}</p>
+                {wave.timezone === UNKNOWN_TIMEZONE && (
+                  <p className="text-xs text-yellow-700">Scheduled as {wave.scheduleTimezone}</p>
+                )}
+              </td>
+              <td className="py-2 text-right">{wave.leads.length.toLocaleString()}</td>
+              <td className="py-2">
+                {formatTime(wave.earliestAt, wave.scheduleTimezone)}
+                {wave.latestAt && (
+                  <p className="text-xs text-gray-500">
+                    until {wave.latestAt.toLocaleTimeString(undefined, {
+                      timeZone: wave.scheduleTimezone,
+                      hour: 'numeric',
+                      minute: '2-digit'
+                    })}
+                  </p>
+                )}
+              </td>
+              <td className="py-2 text-gray-600">{formatTime(wave.earliestAt)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {errors.length > 0 && (
+        <div className="mb-6 p-4 bg-destructive/10 rounded-md">
+          {errors.map(error => (
+            <p key={error} className="text-xs text-gray-700 flex items-center gap-2">
+              <AlertCircle className="h-3 w-3 text-destructive" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Back
+        </Button>
+        <Button onClick={onConfirm} disabled={errors.length > 0} className="flex-1">
+          Create {waves.length} Campaigns
+        </Button>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,70 @@
+import { SchedulePlan } from './vapiClient'
+import { zonedTimeToUtc } from './timezone'
+
+export interface CampaignSchedule {
+  enabled: boolean
+  // datetime-local values ("2025-03-14T10:00"), read as wall-clock time in `timezone`
+  start: string
+  end: string
+  timezone: string
+}
+
+// Offered in the schedule's timezone picker, after the browser's own zone
+export const SCHEDULE_TIMEZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Toronto',
+  'America/Vancouver',
+  'Europe/London',
+  'Europe/Dublin',
+  'Europe/Paris',
+  'Australia/Sydney',
+  'Australia/Perth',
+  'UTC'
+]
+
+export function getBrowserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+export function defaultSchedule(): CampaignSchedule {
+  return { enabled: false, start: '', end: '', timezone: getBrowserTimezone() }
+}
+
+export function getScheduleStart(schedule: CampaignSchedule): Date | undefined {
+  return schedule.enabled && schedule.start ? toInstant(schedule.start, schedule.timezone) : undefined
+}
+
+export function toSchedulePlan(schedule: CampaignSchedule): SchedulePlan | undefined {
+  const start = getScheduleStart(schedule)
+  if (!start) return undefined
+  return {
+    earliestAt: start.toISOString(),
+    ...(schedule.end && { latestAt: toInstant(schedule.end, schedule.timezone).toISOString() })
+  }
+}
+
+export function getScheduleErrors(schedule: CampaignSchedule, now: Date = new Date()): string[] {
+  if (!schedule.enabled) return []
+  if (!schedule.start) return ['Choose a start date and time']
+
+  const errors: string[] = []
+  const start = toInstant(schedule.start, schedule.timezone)
+  if (start <= now) {
+    errors.push('The start time must be in the future')
+  }
+  if (schedule.end && toInstant(schedule.end, schedule.timezone) <= start) {
+    errors.push('The end time must be after the start time')
+  }
+  return errors
+}
+
+function toInstant(value: string, timezone: string): Date {
+  const [date, time] = value.split('T')
+  return zonedTimeToUtc(date, time, timezone)
+}
@@ -0,0 +1,77 @@
+import { ValidatedLead } from './dataValidator'
+import { CallingWindow, UNKNOWN_TIMEZONE, zonedTimeToUtc } from './timezone'
+
+export interface WaveSettings {
+  enabled: boolean
+  // Calendar date ("YYYY-MM-DD") and local time ("HH:MM") every wave starts at
+  date: string
+  startTime: string
+}
+
+// One campaign's worth of leads sharing a timezone
+export interface CampaignWave {
+  timezone: string
+  // Zone the schedule is computed in; the fallback zone for leads of unknown timezone
+  scheduleTimezone: string
+  leads: ValidatedLead[]
+  earliestAt: Date
+  // End of the calling window on the same local day, if it comes after the start
+  latestAt?: Date
+}
+
+export function todayIsoDate(): string {
+  const now = new Date()
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+export function defaultWaveSettings(): WaveSettings {
+  return { enabled: false, date: todayIsoDate(), startTime: '10:00' }
+}
+
+/**
+ * Groups leads by timezone so each group can be scheduled to start at the same
+ * local time. Largest groups come first.
+ */
+export function planWaves(
+  leads: ValidatedLead[],
+  settings: WaveSettings,
+  callingWindow: CallingWindow,
+  fallbackTimezone: string
+): CampaignWave[] {
+  const groups: Record<string, ValidatedLead[]> = {}
+  leads.forEach(lead => {
+    const timezone = lead.timezone || UNKNOWN_TIMEZONE
+    if (!groups[timezone]) groups[timezone] = []
+    groups[timezone].push(lead)
+  })
+
+  return Object.keys(groups)
+    .map(timezone => {
+      const scheduleTimezone = timezone === UNKNOWN_TIMEZONE ? fallbackTimezone : timezone
+      const earliestAt = zonedTimeToUtc(settings.date, settings.startTime, scheduleTimezone)
+      const windowEnd = zonedTimeToUtc(settings.date, callingWindow.end, scheduleTimezone)
+      return {
+        timezone,
+        scheduleTimezone,
+        leads: groups[timezone],
+        earliestAt,
+        ...(windowEnd > earliestAt && { latestAt: windowEnd })
+      }
+    })
+    .sort((a, b) => b.leads.length - a.leads.length)
+}
+
+export function getWaveCampaignName(campaignName: string, wave: CampaignWave): string {
+  return `${campaignName} - ${wave.timezone}`
+}
+
+/**
+ * Problems that should stop the waves from being created, e.g. a start time
+ * that has already passed in some timezones.
+ */
+export function getWaveErrors(waves: CampaignWave[], now: Date = new Date()): string[] {
+  return waves
+    .filter(wave => wave.earliestAt <= now)
+    .map(wave => `The start time has already passed in ${wave.scheduleTimezone}`)
+}
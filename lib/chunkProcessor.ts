@@ -1,14 +1,41 @@
+import { WORKER_TASKS, WorkerTaskName, WorkerRequest, WorkerResponse } from './workerTasks'
+import { createAbortError, throwIfAborted } from './abort'
+
 export interface ChunkProcessorOptions {
   chunkSize: number
   yieldInterval: number
   useWebWorker: boolean
   memoryThreshold: number
+  // Workers in the pool; defaults to navigator.hardwareConcurrency
+  poolSize?: number
   onProgress?: (processed: number, total: number) => void
+  // Creates each worker in the pool; defaults to the bundled validation worker
+  createWorker?: () => Worker
+}
+
+interface PooledWorker {
+  worker: Worker
+  // Requests sent to this worker that haven't been answered yet
+  active: number
+}
+
+// Chunks sent to each worker at a time: one it works on, one waiting so it never idles
+const CHUNKS_PER_WORKER = 2
+
+interface PendingRequest {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  // Detaches the request's abort listener once it settles
+  cleanup: () => void
 }
 
 export class ChunkProcessor {
   private options: ChunkProcessorOptions
-  private worker: Worker | null = null
+  private pool: PooledWorker[] = []
+  private nextRequestId = 0
+  private pending: Record<number, PendingRequest> = {}
+  // Set once a worker failed to load or crashed; from then on everything runs on the main thread
+  private workersFailed = false
 
   constructor(options: Partial<ChunkProcessorOptions> = {}) {
     this.options = {
@@ -20,29 +47,83 @@ export class ChunkProcessor {
     }
   }
 
+  // Runs on the main thread, yielding between chunks; use processTask to run in the worker pool.
+  // Aborting the signal rejects with an AbortError before the next chunk.
   async processData<T, R>(
     data: T[],
-    processor: (chunk: T[]) => Promise<R[]> | R[]
+    processor: (chunk: T[], offset: number) => Promise<R[]> | R[],
+    signal?: AbortSignal
   ): Promise<R[]> {
-    // Check if we should use Web Worker
-    if (this.options.useWebWorker && data.length > 10000 && typeof Worker !== 'undefined') {
-      return this.processWithWebWorker(data, processor)
+    return this.processInChunks(data, processor, signal)
+  }
+
+  /**
+   * Runs a worker task over the data chunk by chunk, spread across the worker
+   * pool when workers can be started and on the main thread otherwise. Only a
+   * few chunks per worker are in flight, the next one sent as one comes back.
+   * Results keep the data's order, whichever worker finishes first.
+   */
+  async processTask<R>(task: WorkerTaskName, data: any[], context?: any, signal?: AbortSignal): Promise<R[]> {
+    throwIfAborted(signal)
+    const runOnMainThread = (chunk: any[], offset: number) => WORKER_TASKS[task](chunk, context, offset)
+    const pool = this.getPool()
+    if (!pool) {
+      return this.processInChunks(data, runOnMainThread, signal)
     }
-    
-    // Otherwise use chunked processing
-    return this.processInChunks(data, processor)
+
+    const { chunkSize, onProgress } = this.options
+    const chunkCount = Math.ceil(data.length / chunkSize)
+    const chunkResults: R[][] = []
+    let nextChunk = 0
+    let processed = 0
+
+    const sendChunks = async () => {
+      while (nextChunk < chunkCount && !this.workersFailed) {
+        throwIfAborted(signal)
+        const index = nextChunk++
+        const chunk = data.slice(index * chunkSize, (index + 1) * chunkSize)
+        try {
+          chunkResults[index] = await this.request<R[]>(task, chunk, context, index * chunkSize, signal)
+        } catch (error) {
+          // Left for the main thread below
+          if (this.workersFailed) return
+          throw error
+        }
+        processed += chunk.length
+        if (onProgress) onProgress(processed, data.length)
+      }
+    }
+    const senders: Promise<void>[] = []
+    for (let i = 0; i < pool.length * CHUNKS_PER_WORKER; i++) {
+      senders.push(sendChunks())
+    }
+    await Promise.all(senders)
+
+    // If the pool died, the chunks it didn't answer are run here instead
+    for (let index = 0; index < chunkCount; index++) {
+      if (chunkResults[index]) continue
+      throwIfAborted(signal)
+      const chunk = data.slice(index * chunkSize, (index + 1) * chunkSize)
+      chunkResults[index] = await runOnMainThread(chunk, index * chunkSize)
+      processed += chunk.length
+      if (onProgress) onProgress(processed, data.length)
+      await this.yield(this.options.yieldInterval)
+    }
+    return chunkResults.reduce((all, chunk) => all.concat(chunk), [] as R[])
   }
 
   private async processInChunks<T, R>(
     data: T[],
-    processor: (chunk: T[]) => Promise<R[]> | R[]
+    processor: (chunk: T[], offset: number) => Promise<R[]> | R[],
+    signal?: AbortSignal
   ): Promise<R[]> {
     const results: R[] = []
     const { chunkSize, yieldInterval, onProgress } = this.options
     
     for (let i = 0; i < data.length; i += chunkSize) {
+      throwIfAborted(signal)
       const chunk = data.slice(i, i + chunkSize)
-      const chunkResults = await processor(chunk)
+      const chunkResults = await processor(chunk, i)
       results.push(...chunkResults)
       
       if (onProgress) {
@@ -56,52 +137,84 @@ export class ChunkProcessor {
     return results
   }
 
-  private async processWithWebWorker<T, R>(
-    data: T[],
-    processor: (chunk: T[]) => Promise<R[]> | R[]
-  ): Promise<R[]> {
-    return new Promise((resolve, reject) => {
-      // Create worker if not exists
-      if (!this.worker) {
-        this.worker = new Worker('/workers/dataProcessor.js')
-      }
-      
-      const results: R[] = []
-      
-      this.worker.onmessage = (e) => {
-        const { type, payload } = e.data
-        
-        switch (type) {
-          case 'progress':
-            if (this.options.onProgress) {
-              this.options.onProgress(payload.processed, payload.total)
-            }
-            break
-          case 'result':
-            results.push(...payload)
-            break
-          case 'complete':
-            resolve(results)
-            break
-          case 'error':
-            reject(new Error(payload))
-            break
-        }
+  private getPool(): PooledWorker[] | null {
+    if (this.pool.length > 0) return this.pool
+    if (!this.options.useWebWorker || this.workersFailed || typeof Worker === 'undefined') return null
+
+    const size = Math.max(1, this.options.poolSize || navigator.hardwareConcurrency || 4)
+    try {
+      for (let i = 0; i < size; i++) {
+        this.pool.push(this.startWorker())
       }
-      
-      this.worker.onerror = (error) => {
-        reject(error)
+    } catch {
+      // Fall back to the main thread, e.g. when a content security policy blocks workers
+      this.destroy()
+      return null
+    }
+    return this.pool
+  }
+
+  private startWorker(): PooledWorker {
+    const worker = this.options.createWorker
+      ? this.options.createWorker()
+      : new Worker(new URL('./validation.worker.ts', import.meta.url))
+    const pooled: PooledWorker = { worker, active: 0 }
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const response = e.data
+      pooled.active--
+      const request = this.pending[response.id]
+      // Requests that were aborted are answered anyway; their results are dropped
+      if (!request) return
+      delete this.pending[response.id]
+      request.cleanup()
+      if (response.type === 'result') request.resolve(response.payload)
+      else request.reject(new Error(response.payload))
+    }
+
+    // A worker that fails to load (e.g. a bundle or CSP error) or crashes takes
+    // the whole pool down, as the others run the same script. Requests still in
+    // flight are rejected and their callers redo the work on the main thread.
+    worker.onerror = () => {
+      this.workersFailed = true
+      this.destroy()
+    }
+
+    return pooled
+  }
+
+  // Sends the request to the worker with the fewest requests in flight
+  private request<R>(
+    task: WorkerTaskName,
+    payload: any,
+    context?: any,
+    offset?: number,
+    signal?: AbortSignal
+  ): Promise<R> {
+    const pooled = this.pool.reduce((least, candidate) => candidate.active < least.active ? candidate : least)
+    return new Promise((resolve, reject) => {
+      const id = this.nextRequestId++
+      const onAbort = () => {
+        delete this.pending[id]
+        reject(createAbortError())
       }
-      
-      // Send data to worker
-      this.worker.postMessage({
-        type: 'process',
-        data,
-        chunkSize: this.options.chunkSize
-      })
+      const message: WorkerRequest = { id, task, payload, context, offset }
+      this.pending[id] = { resolve, reject, cleanup: () => signal?.removeEventListener('abort', onAbort) }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      pooled.active++
+      pooled.worker.postMessage(message)
     })
   }
 
+  private rejectPending(error: Error) {
+    Object.keys(this.pending).forEach(id => {
+      const request = this.pending[Number(id)]
+      request.cleanup()
+      request.reject(error)
+    })
+    this.pending = {}
+  }
+
   private yield(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
@@ -115,10 +228,14 @@ export class ChunkProcessor {
     return true // Can't check, assume OK
   }
 
+  // Stops every worker in the pool; requests still in flight are rejected
   destroy() {
-    if (this.worker) {
-      this.worker.terminate()
-      this.worker = null
-    }
+    this.rejectPending(new Error('The processor was destroyed'))
+    this.pool.forEach(pooled => {
+      pooled.worker.onmessage = null
+      pooled.worker.onerror = null
+      pooled.worker.terminate()
+    })
+    this.pool = []
   }
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { createAbortError, throwIfAborted } from './abort'
+
+export interface CsvStreamOptions {
+  delimiter: string
+  // Any label TextDecoder understands; defaults to UTF-8
+  encoding?: string
+  chunkBytes?: number
+  // Return false to stop reading early (e.g. once a preview has enough rows)
+  onRows: (rows: string[][], bytesRead: number) => boolean | void | Promise<boolean | void>
+  // Stops reading with an AbortError before the next piece of the file
+  signal?: AbortSignal
+}
+
+const DEFAULT_CHUNK_BYTES = 1024 * 1024
+
+/**
+ * Incremental RFC 4180 tokenizer. Text can be pushed in arbitrary pieces;
+ * quoted fields and line breaks that straddle two pieces are carried over.
+ */
+export class CsvTokenizer {
+  private delimiter: string
+  private field = ''
+  private row: string[] = []
+  private inQuotes = false
+  private quotePending = false
+  private skipLineFeed = false
+
+  constructor(delimiter: string) {
+    this.delimiter = delimiter
+  }
+
+  push(text: string): string[][] {
+    const rows: string[][] = []
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false
+        if (char === '\n') continue
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false
+          if (char === '"') {
+            // Escaped quote ("")
+            this.field += '"'
+            continue
+          }
+          // Closing quote - fall through and treat char as unquoted
+          this.inQuotes = false
+        } else if (char === '"') {
+          this.quotePending = true
+          continue
+        } else {
+          this.field += char
+          continue
+        }
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true
+      } else if (char === this.delimiter) {
+        this.row.push(this.field)
+        this.field = ''
+      } else if (char === '\n' || char === '\r') {
+        this.row.push(this.field)
+        rows.push(this.row)
+        this.field = ''
+        this.row = []
+        this.skipLineFeed = char === '\r'
+      } else {
+        this.field += char
+      }
+    }
+
+    return rows
+  }
+
+  flush(): string[][] {
+    if (this.field === '' && this.row.length === 0) {
+      return []
+    }
+    this.row.push(this.field)
+    const rows = [this.row]
+    this.field = ''
+    this.row = []
+    this.inQuotes = false
+    this.quotePending = false
+    return rows
+  }
+}
+
+export async function streamCsv(file: Blob, options: CsvStreamOptions): Promise<void> {
+  const chunkBytes = options.chunkBytes || DEFAULT_CHUNK_BYTES
+  const decoder = new TextDecoder(options.encoding || 'utf-8')
+  const tokenizer = new CsvTokenizer(options.delimiter)
+
+  for (let offset = 0; offset < file.size; offset += chunkBytes) {
+    throwIfAborted(options.signal)
+    const end = Math.min(offset + chunkBytes, file.size)
+    const buffer = await readBytes(file.slice(offset, end), options.signal)
+    const text = decoder.decode(buffer, { stream: end < file.size })
+    let rows = tokenizer.push(text)
+
+    if (end >= file.size) {
+      rows = rows.concat(tokenizer.flush())
+    }
+
+    const keepGoing = await options.onRows(rows, end)
+    if (keepGoing === false) {
+      return
+    }
+  }
+}
+
+export function isBlankRow(row: string[]): boolean {
+  return row.every(value => value.trim() === '')
+}
+
+export function readBytes(blob: Blob, signal?: AbortSignal): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    const onAbort = () => reader.abort()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(new Error('Failed to read file'))
+    reader.onabort = () => reject(createAbortError())
+    reader.onloadend = () => signal?.removeEventListener('abort', onAbort)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    reader.readAsArrayBuffer(blob)
+  })
+}
@@ -1,58 +1,174 @@
-import { formatPhoneNumber } from './phoneFormatter'
+import { CountryCode } from 'libphonenumber-js'
+import { formatPhoneNumber, resolveCountry, LineType, LINE_TYPE_LABELS } from './phoneFormatter'
+import { SuppressionSet } from './suppressionLists'
+import { inferTimezone, UNKNOWN_TIMEZONE } from './timezone'
+import { findDuplicateGroups, DuplicateCandidate, DuplicateGroup, DuplicateOptions } from './duplicates'
 
 export interface ValidatedLead {
   name: string
   number: string
   email?: string
+  // Values for the assistant's {{placeholders}}, keyed by variable name
+  variables?: Record<string, string>
+  // File and worksheet the lead was read from, for reporting only (not sent to Vapi)
+  file?: string
+  sheet?: string
+  // Region the number was parsed under, for reporting only
+  region?: CountryCode
+  lineType?: LineType
+  // IANA timezone; unset when it couldn't be inferred
+  timezone?: string
+}
+
+export interface InvalidRow {
+  rowIndex: number
+  file?: string
+  sheet?: string
+  region?: CountryCode
+  lineType?: LineType
+  data: any
+  errors: string[]
+}
+
+// A row dropped because its number is on a do-not-call list
+export interface SuppressedRow {
+  rowIndex: number
+  file?: string
+  sheet?: string
+  number: string
+  list: string
+  data: any
+}
+
+export interface FileSummary {
+  file: string
+  totalRows: number
+  validRows: number
+  invalidRows: number
+  duplicateRows: number
+  suppressedRows: number
 }
 
 export interface ValidationResult {
   valid: ValidatedLead[]
-  invalid: {
-    rowIndex: number
-    data: any
-    errors: string[]
-  }[]
+  invalid: InvalidRow[]
+  suppressed: SuppressedRow[]
   duplicates: number
   summary: {
     totalRows: number
     validRows: number
     invalidRows: number
     duplicateRows: number
+    suppressedRows: number
   }
+  // Per-file counts, in upload order. Empty when rows carry no file name.
+  byFile: FileSummary[]
+  // Valid leads per region their number was parsed under
+  byRegion: Record<string, number>
+  // Only line types with rows to report, in LINE_TYPE_LABELS order
+  byLineType: LineTypeSummary[]
+  // Valid leads per IANA timezone, UNKNOWN_TIMEZONE for the rest
+  byTimezone: Record<string, number>
+  // Suppressed rows per list name, for every list checked
+  bySuppressionList: Record<string, number>
+  // Every set of duplicate rows and which one was kept, in row order
+  duplicateGroups: DuplicateGroup[]
 }
 
-export function validateAndCleanData(
-  data: Array<{
-    rowIndex: number
-    phone: string
-    name: string
-    email: string
-    originalData: any
-  }>
-): ValidationResult {
-  const valid: ValidatedLead[] = []
-  const invalid: Array<{
-    rowIndex: number
-    data: any
-    errors: string[]
-  }> = []
-  const seenPhones = new Set<string>()
-  let duplicates = 0
-
-  data.forEach(row => {
+export interface LineTypeSummary {
+  lineType: LineType
+  validRows: number
+  // Rows dropped by the line type policy
+  excludedRows: number
+}
+
+export interface LineTypePolicy {
+  excludePremiumRate?: boolean
+  excludeTollFree?: boolean
+  // Numbers that may be either (US, Canada) are kept, as they can't be told apart
+  mobileOnly?: boolean
+}
+
+export interface ValidationOptions {
+  // Region for numbers without a country prefix or a country column value
+  defaultCountry?: CountryCode
+  lineTypePolicy?: LineTypePolicy
+  // Do-not-call lists; a number on any of them is never uploaded
+  suppressionLists?: SuppressionSet[]
+  duplicates?: DuplicateOptions
+}
+
+export interface LeadRow {
+  rowIndex: number
+  file?: string
+  sheet?: string
+  phone: string
+  name: string
+  email: string
+  // Raw values of the mapped location columns, if any
+  country?: string
+  state?: string
+  timezone?: string
+  variables?: Record<string, string>
+  originalData: any
+}
+
+// Outcome of the per-row checks, before duplicates across rows are resolved
+export interface RowValidation {
+  rowIndex: number
+  file?: string
+  sheet?: string
+  region?: CountryCode
+  lineType?: LineType
+  // Set when the only reason the row was rejected is the line type policy
+  excluded?: boolean
+  data: any
+  errors: string[]
+  formattedPhone?: string
+  lead?: ValidatedLead
+  // The row as read, kept for rejected rows so they can be corrected and re-checked
+  input?: LeadRow
+}
+
+// Values a user can correct on a rejected row
+export interface RowCorrection {
+  phone: string
+  email: string
+}
+
+export function validateAndCleanData(data: LeadRow[], options: ValidationOptions = {}): ValidationResult {
+  return finalizeValidation(validateRows(data, options), options)
+}
+
+/**
+ * Checks each row on its own. Rows do not depend on each other here, so large
+ * files can be fed through in chunks and the results concatenated in order.
+ */
+export function validateRows(data: LeadRow[], options: ValidationOptions = {}): RowValidation[] {
+  const defaultCountry = options.defaultCountry || 'US'
+
+  return data.map(row => {
     const errors: string[] = []
+
+    // A row's own country wins over the default; an unreadable one is an error
+    // rather than a silent fallback, so numbers aren't dialled in the wrong region
+    const rowCountry = resolveCountry(row.country)
+    const region = rowCountry || defaultCountry
+    if (row.country?.trim() && !rowCountry) {
+      errors.push(`Unknown country: ${row.country.trim()}`)
+    }
     
     // Validate phone number
-    const phoneResult = formatPhoneNumber(row.phone)
+    const phoneResult = formatPhoneNumber(row.phone, region)
     if (!phoneResult.isValid || !phoneResult.formatted) {
       errors.push(`Invalid phone: ${phoneResult.error || 'Unknown error'}`)
     }
-    
-    // Check for duplicates
-    if (phoneResult.formatted && seenPhones.has(phoneResult.formatted)) {
-      errors.push('Duplicate phone number')
-      duplicates++
+
+    const exclusion = phoneResult.lineType
+      ? getPolicyExclusion(phoneResult.lineType, options.lineTypePolicy)
+      : null
+    if (exclusion) {
+      errors.push(exclusion)
     }
     
     // Validate email if present
@@ -64,39 +180,523 @@ export function validateAndCleanData(
     
     // Clean name
     const cleanName = cleanText(row.name)
-    
-    // If we have errors, add to invalid list
-    if (errors.length > 0) {
-      invalid.push({
+
+    // Clean variable values
+    const cleanVariables: Record<string, string> = {}
+    Object.keys(row.variables || {}).forEach(key => {
+      cleanVariables[key] = row.variables![key].trim()
+    })
+
+    return {
+      rowIndex: row.rowIndex,
+      file: row.file,
+      sheet: row.sheet,
+      region,
+      lineType: phoneResult.lineType,
+      excluded: exclusion !== null && errors.length === 1,
+      data: row.originalData,
+      errors,
+      formattedPhone: phoneResult.formatted,
+      ...(errors.length > 0 && { input: row }),
+      lead: errors.length === 0 && phoneResult.formatted
+        ? {
+            name: cleanName,
+            number: phoneResult.formatted,
+            ...(cleanEmail && { email: cleanEmail }),
+            ...(Object.keys(cleanVariables).length > 0 && { variables: cleanVariables }),
+            ...(row.file && { file: row.file }),
+            ...(row.sheet && { sheet: row.sheet }),
+            region,
+            lineType: phoneResult.lineType,
+            timezone: inferTimezone(
+              phoneResult.formatted,
+              phoneResult.country || region,
+              row.state,
+              row.timezone
+            ).timezone
+          }
+        : undefined
+    }
+  })
+}
+
+/**
+ * Whether a rejected row failed on something that can be fixed in place
+ * (its phone number or email), rather than on the line type policy.
+ */
+export function isCorrectable(row: RowValidation): boolean {
+  return Boolean(row.input) && !row.excluded &&
+    row.errors.some(error => error.startsWith('Invalid phone') || error === 'Invalid email format')
+}
+
+// Re-runs the row checks with corrected values; the result replaces the original row
+export function revalidateRow(
+  row: RowValidation,
+  correction: RowCorrection,
+  options: ValidationOptions = {}
+): RowValidation {
+  if (!row.input) return row
+  return validateRows([{ ...row.input, ...correction }], options)[0]
+}
+
+/**
+ * Drops numbers on suppression lists, resolves duplicates across all rows
+ * (by default the first occurrence wins) and builds the final result. Must see
+ * every row of every file at once, so that numbers repeated across files are
+ * caught too.
+ */
+export function finalizeValidation(rows: RowValidation[], options: ValidationOptions = {}): ValidationResult {
+  const findList = getListFinder(options)
+
+  // Duplicates are resolved up front, as the kept row may come after the others
+  const candidates: DuplicateCandidate[] = []
+  rows.forEach((row, position) => {
+    if (isDuplicateCandidate(row, findList)) candidates.push(toCandidate(row, position))
+  })
+  const duplicateGroups = findDuplicateGroups(candidates, options.duplicates)
+  const groupByPosition: Record<number, DuplicateGroup> = {}
+  duplicateGroups.forEach(group => {
+    group.rows.forEach(row => { groupByPosition[row.position] = group })
+  })
+
+  // Every list checked is reported, even when nothing was on it
+  const bySuppressionList: Record<string, number> = {}
+  const suppressionLists = options.suppressionLists || []
+  suppressionLists.forEach(list => { bySuppressionList[list.name] = 0 })
+
+  const result: ValidationResult = {
+    valid: [],
+    invalid: [],
+    suppressed: [],
+    duplicates: 0,
+    summary: { totalRows: 0, validRows: 0, invalidRows: 0, duplicateRows: 0, suppressedRows: 0 },
+    byFile: [],
+    byRegion: {},
+    byLineType: [],
+    byTimezone: {},
+    bySuppressionList,
+    duplicateGroups
+  }
+
+  rows.forEach((row, position) => {
+    const outcome = getRowOutcome(row, position, findList(row), groupByPosition[position])
+    if (outcome.list === 'suppressed') result.suppressed.push(outcome.entry)
+    else if (outcome.list === 'invalid') result.invalid.push(outcome.entry)
+    else result.valid.push(outcome.entry)
+    countOutcome(result, row, outcome, 1)
+  })
+
+  return withSummary(result, rows.length)
+}
+
+export interface ValidationUpdate {
+  validation: ValidationResult
+  rows: RowValidation[]
+}
+
+/**
+ * Replaces one row, e.g. after a correction, and updates the result for that
+ * row and the duplicates it joins or leaves, rather than finalizing every row
+ * again. Neither result nor rows is changed; index is moved on to match the
+ * returned ones.
+ */
+export function updateValidatedRow(
+  result: ValidationResult,
+  rows: RowValidation[],
+  index: ValidationIndex,
+  position: number,
+  row: RowValidation,
+  options: ValidationOptions = {}
+): ValidationUpdate {
+  return updateRows(result, rows, index, [position], options, { position, row })
+}
+
+// Re-picks the kept row of one duplicate group after options.duplicates.overrides changed
+export function updateDuplicateChoice(
+  result: ValidationResult,
+  rows: RowValidation[],
+  index: ValidationIndex,
+  groupId: number,
+  options: ValidationOptions = {}
+): ValidationResult {
+  const group = result.duplicateGroups.find(existing => existing.id === groupId)
+  if (!group) return result
+  return updateRows(result, rows, index, group.rows.map(member => member.position), options).validation
+}
+
+type RowOutcome =
+  | { list: 'suppressed'; entry: SuppressedRow }
+  | { list: 'invalid'; entry: InvalidRow; duplicate: boolean }
+  | { list: 'valid'; entry: ValidatedLead }
+
+/**
+ * Positions of the rows behind each list of a result, and the lookups
+ * duplicate detection used. Belongs to one result: the update functions change
+ * it in place to follow the result they return.
+ */
+export interface ValidationIndex {
+  validAt: number[]
+  invalidAt: number[]
+  suppressedAt: number[]
+  byPhone: Record<string, number[]>
+  byEmail: Record<string, number[]>
+  groupByPosition: Record<number, DuplicateGroup>
+}
+
+function getListFinder(options: ValidationOptions) {
+  const suppressionLists = options.suppressionLists || []
+  return (row: RowValidation) => row.formattedPhone
+    ? suppressionLists.find(l => l.numbers.has(row.formattedPhone!))
+    : undefined
+}
+
+function isDuplicateCandidate(row: RowValidation, findList: (row: RowValidation) => SuppressionSet | undefined): boolean {
+  return Boolean(row.lead) && row.errors.length === 0 && !findList(row)
+}
+
+function toCandidate(row: RowValidation, position: number): DuplicateCandidate {
+  return { position, rowIndex: row.rowIndex, file: row.file, sheet: row.sheet, lead: row.lead! }
+}
+
+// Where a row ends up: every row goes to exactly one of the three lists
+function getRowOutcome(
+  row: RowValidation,
+  position: number,
+  list: SuppressionSet | undefined,
+  group: DuplicateGroup | undefined
+): RowOutcome {
+  // Suppression wins over every other outcome, so a do-not-call number is
+  // never reported as merely invalid or duplicate
+  if (list) {
+    return {
+      list: 'suppressed',
+      entry: {
         rowIndex: row.rowIndex,
-        data: row.originalData,
+        file: row.file,
+        sheet: row.sheet,
+        number: row.formattedPhone!,
+        list: list.name,
+        data: row.data
+      }
+    }
+  }
+
+  const errors = [...row.errors]
+  const duplicate = Boolean(group && group.kept !== position)
+  if (duplicate) {
+    errors.push(row.lead!.number === group!.lead.number ? 'Duplicate phone number' : 'Duplicate email')
+  }
+
+  if (errors.length > 0) {
+    return {
+      list: 'invalid',
+      duplicate,
+      entry: {
+        rowIndex: row.rowIndex,
+        file: row.file,
+        sheet: row.sheet,
+        region: row.region,
+        lineType: row.lineType,
+        data: row.data,
         errors
-      })
-    } else if (phoneResult.formatted) {
-      // Add to valid list
-      seenPhones.add(phoneResult.formatted)
-      valid.push({
-        name: cleanName,
-        number: phoneResult.formatted,
-        ...(cleanEmail && { email: cleanEmail })
-      })
+      }
     }
-  })
+  }
 
+  // Merged with its duplicates if that strategy is chosen
+  return { list: 'valid', entry: group ? group.lead : row.lead! }
+}
+
+// Adds a row's outcome to the per-file, region, line type and timezone counts, or takes it off again
+function countOutcome(result: ValidationResult, row: RowValidation, outcome: RowOutcome, change: 1 | -1) {
+  const fileSummary = row.file ? getFileSummary(result.byFile, row.file) : null
+  if (fileSummary) fileSummary.totalRows += change
+
+  if (outcome.list === 'suppressed') {
+    addCount(result.bySuppressionList, outcome.entry.list, change, true)
+    if (fileSummary) fileSummary.suppressedRows += change
+    return
+  }
+
+  if (row.lineType && row.excluded) addLineTypeCount(result.byLineType, row.lineType, 'excludedRows', change)
+
+  if (outcome.list === 'invalid') {
+    if (outcome.duplicate) {
+      result.duplicates += change
+      if (fileSummary) fileSummary.duplicateRows += change
+    }
+    if (fileSummary) fileSummary.invalidRows += change
+    return
+  }
+
+  if (fileSummary) fileSummary.validRows += change
+  if (row.region) addCount(result.byRegion, row.region, change)
+  if (row.lineType) addLineTypeCount(result.byLineType, row.lineType, 'validRows', change)
+  addCount(result.byTimezone, row.lead!.timezone || UNKNOWN_TIMEZONE, change)
+}
+
+// Keys are dropped at zero, so reports only list what is there; suppression lists always keep theirs
+function addCount(counts: Record<string, number>, key: string, change: number, keepZero = false) {
+  const count = (counts[key] || 0) + change
+  if (count === 0 && !keepZero) delete counts[key]
+  else counts[key] = count
+}
+
+function withSummary(result: ValidationResult, totalRows: number): ValidationResult {
   return {
-    valid,
-    invalid,
-    duplicates,
+    ...result,
     summary: {
-      totalRows: data.length,
-      validRows: valid.length,
-      invalidRows: invalid.length,
-      duplicateRows: duplicates
+      totalRows,
+      validRows: result.valid.length,
+      invalidRows: result.invalid.length,
+      duplicateRows: result.duplicates,
+      suppressedRows: result.suppressed.length
+    }
+  }
+}
+
+/**
+ * Works out which list each row of a finalized result went to, for the update
+ * functions. Replays the decisions finalizeValidation made rather than running
+ * them again, so it only has to look rows up.
+ */
+export function indexValidation(result: ValidationResult, rows: RowValidation[], options: ValidationOptions = {}): ValidationIndex {
+  const findList = getListFinder(options)
+  const index: ValidationIndex = { validAt: [], invalidAt: [], suppressedAt: [], byPhone: {}, byEmail: {}, groupByPosition: {} }
+  result.duplicateGroups.forEach(group => {
+    group.rows.forEach(row => { index.groupByPosition[row.position] = group })
+  })
+
+  rows.forEach((row, position) => {
+    if (findList(row)) {
+      index.suppressedAt.push(position)
+      return
+    }
+    if (isDuplicateCandidate(row, findList)) {
+      addCandidateKeys(index, row, position, options)
+    }
+    const group = index.groupByPosition[position]
+    if (row.errors.length > 0 || (group && group.kept !== position)) {
+      index.invalidAt.push(position)
+    } else {
+      index.validAt.push(position)
+    }
+  })
+
+  return index
+}
+
+// Same keys findDuplicateGroups() groups on
+function getCandidateKeys(row: RowValidation, options: ValidationOptions) {
+  return {
+    phone: row.lead!.number,
+    email: options.duplicates?.byEmail ? row.lead!.email?.toLowerCase() : undefined
+  }
+}
+
+function addCandidateKeys(index: ValidationIndex, row: RowValidation, position: number, options: ValidationOptions) {
+  const { phone, email } = getCandidateKeys(row, options)
+  if (!index.byPhone[phone]) index.byPhone[phone] = []
+  index.byPhone[phone].push(position)
+  if (email) {
+    if (!index.byEmail[email]) index.byEmail[email] = []
+    index.byEmail[email].push(position)
+  }
+}
+
+function removeCandidateKeys(index: ValidationIndex, row: RowValidation, position: number, options: ValidationOptions) {
+  const { phone, email } = getCandidateKeys(row, options)
+  const remove = (positions?: number[]) => {
+    if (positions && positions.indexOf(position) !== -1) positions.splice(positions.indexOf(position), 1)
+  }
+  remove(index.byPhone[phone])
+  if (email) remove(index.byEmail[email])
+}
+
+/**
+ * Takes the given rows, every row sharing a duplicate group with them and
+ * every row the replaced row now duplicates out of the result, then finalizes
+ * just those rows again and puts them back in row order.
+ */
+function updateRows(
+  previous: ValidationResult,
+  previousRows: RowValidation[],
+  index: ValidationIndex,
+  changed: number[],
+  options: ValidationOptions,
+  replacement?: { position: number; row: RowValidation }
+): ValidationUpdate {
+  const findList = getListFinder(options)
+
+  const affected: Record<number, boolean> = {}
+  const staleGroups: DuplicateGroup[] = []
+  const include = (position: number) => {
+    const group = index.groupByPosition[position]
+    if (group && staleGroups.indexOf(group) === -1) {
+      staleGroups.push(group)
+      group.rows.forEach(member => { affected[member.position] = true })
     }
+    affected[position] = true
+  }
+  changed.forEach(include)
+  if (replacement && isDuplicateCandidate(replacement.row, findList)) {
+    const { phone, email } = getCandidateKeys(replacement.row, options)
+    const matches = (index.byPhone[phone] || []).concat(email ? index.byEmail[email] || [] : [])
+    matches.forEach(include)
+  }
+  const positions = Object.keys(affected).map(Number).sort((a, b) => a - b)
+
+  // Copies of everything below changes, as the previous result may still be rendered
+  const rows = replacement ? previousRows.slice() : previousRows
+  const result: ValidationResult = {
+    ...previous,
+    valid: previous.valid.slice(),
+    invalid: previous.invalid.slice(),
+    suppressed: previous.suppressed.slice(),
+    byFile: previous.byFile.map(summary => ({ ...summary })),
+    byRegion: { ...previous.byRegion },
+    byLineType: previous.byLineType.map(summary => ({ ...summary })),
+    byTimezone: { ...previous.byTimezone },
+    bySuppressionList: { ...previous.bySuppressionList }
+  }
+
+  // Take the affected rows out, as they were finalized before
+  positions.forEach(position => {
+    const row = rows[position]
+    const group = index.groupByPosition[position]
+    const lead = takeAt(result.valid, index.validAt, position)
+    if (lead) {
+      countOutcome(result, row, { list: 'valid', entry: lead }, -1)
+      return
+    }
+    const invalid = takeAt(result.invalid, index.invalidAt, position)
+    if (invalid) {
+      countOutcome(result, row, { list: 'invalid', entry: invalid, duplicate: Boolean(group && group.kept !== position) }, -1)
+      return
+    }
+    const suppressed = takeAt(result.suppressed, index.suppressedAt, position)
+    if (suppressed) {
+      countOutcome(result, row, { list: 'suppressed', entry: suppressed }, -1)
+    }
+  })
+
+  if (replacement) {
+    const replaced = rows[replacement.position]
+    if (isDuplicateCandidate(replaced, findList)) removeCandidateKeys(index, replaced, replacement.position, options)
+    rows[replacement.position] = replacement.row
+    if (isDuplicateCandidate(replacement.row, findList)) addCandidateKeys(index, replacement.row, replacement.position, options)
+  }
+
+  // Their duplicate groups are the only ones that can have changed
+  positions.forEach(position => { delete index.groupByPosition[position] })
+  const groups = findDuplicateGroups(
+    positions
+      .filter(position => isDuplicateCandidate(rows[position], findList))
+      .map(position => toCandidate(rows[position], position)),
+    options.duplicates
+  )
+  groups.forEach(group => {
+    group.rows.forEach(row => { index.groupByPosition[row.position] = group })
+  })
+  const duplicateGroups = result.duplicateGroups
+    .filter(group => staleGroups.indexOf(group) === -1)
+    .concat(groups)
+    .sort((a, b) => a.id - b.id)
+
+  // And back in, where finalizeValidation would have put them
+  positions.forEach(position => {
+    const row = rows[position]
+    const outcome = getRowOutcome(row, position, findList(row), index.groupByPosition[position])
+    if (outcome.list === 'valid') {
+      insertAt(result.valid, index.validAt, position, outcome.entry)
+    } else if (outcome.list === 'invalid') {
+      insertAt(result.invalid, index.invalidAt, position, outcome.entry)
+    } else {
+      insertAt(result.suppressed, index.suppressedAt, position, outcome.entry)
+    }
+    countOutcome(result, row, outcome, 1)
+  })
+
+  return { validation: withSummary({ ...result, duplicateGroups }, rows.length), rows }
+}
+
+// Removes and returns the entry of the row at position, if list holds it
+function takeAt<T>(list: T[], positions: number[], position: number): T | undefined {
+  const at = sortedIndexOf(positions, position)
+  if (at === -1) return undefined
+  positions.splice(at, 1)
+  return list.splice(at, 1)[0]
+}
+
+// Inserts entry into list so that positions, which run alongside it, stay sorted
+function insertAt<T>(list: T[], positions: number[], position: number, entry: T) {
+  const at = sortedInsertionIndex(positions, position)
+  list.splice(at, 0, entry)
+  positions.splice(at, 0, position)
+}
+
+// Index of the first value not below the given one
+function sortedInsertionIndex(sorted: number[], value: number): number {
+  let low = 0
+  let high = sorted.length
+  while (low < high) {
+    const middle = (low + high) >>> 1
+    if (sorted[middle] < value) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+function sortedIndexOf(sorted: number[], value: number): number {
+  const at = sortedInsertionIndex(sorted, value)
+  return sorted[at] === value ? at : -1
+}
+
+function getPolicyExclusion(lineType: LineType, policy: LineTypePolicy = {}): string | null {
+  if (policy.excludePremiumRate && lineType === 'premium-rate') {
+    return 'Excluded: premium-rate number'
+  }
+  if (policy.excludeTollFree && lineType === 'toll-free') {
+    return 'Excluded: toll-free number'
+  }
+  if (policy.mobileOnly && lineType !== 'mobile' && lineType !== 'fixed-line-or-mobile') {
+    return `Excluded: not a mobile number (${LINE_TYPE_LABELS[lineType].toLowerCase()})`
+  }
+  return null
+}
+
+const LINE_TYPE_ORDER = Object.keys(LINE_TYPE_LABELS) as LineType[]
+
+// Like addCount(): an entry is dropped once both its counts are back to zero
+function addLineTypeCount(
+  summaries: LineTypeSummary[],
+  lineType: LineType,
+  field: 'validRows' | 'excludedRows',
+  change: number
+) {
+  let at = summaries.findIndex(s => s.lineType === lineType)
+  if (at === -1) {
+    // Kept in a fixed order, so an updated result lists them as a full run would
+    const order = LINE_TYPE_ORDER.indexOf(lineType)
+    at = summaries.findIndex(s => LINE_TYPE_ORDER.indexOf(s.lineType) > order)
+    if (at === -1) at = summaries.length
+    summaries.splice(at, 0, { lineType, validRows: 0, excludedRows: 0 })
+  }
+  const summary = summaries[at]
+  summary[field] += change
+  if (summary.validRows === 0 && summary.excludedRows === 0) summaries.splice(at, 1)
+}
+
+function getFileSummary(summaries: FileSummary[], file: string): FileSummary {
+  let summary = summaries.find(s => s.file === file)
+  if (!summary) {
+    summary = { file, totalRows: 0, validRows: 0, invalidRows: 0, duplicateRows: 0, suppressedRows: 0 }
+    summaries.push(summary)
   }
+  return summary
 }
 
-function isValidEmail(email: string): boolean {
+export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
   return emailRegex.test(email)
 }
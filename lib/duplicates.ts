@@ -0,0 +1,142 @@
+import { ValidatedLead } from './dataValidator'
+
+export type DuplicateStrategy = 'first' | 'last' | 'complete' | 'merge'
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  first: 'Keep the first row',
+  last: 'Keep the last row',
+  complete: 'Keep the most complete row',
+  merge: 'Merge fields across rows'
+}
+
+export interface DuplicateOptions {
+  strategy?: DuplicateStrategy
+  // Also treat rows with the same email address as duplicates
+  byEmail?: boolean
+  // Kept row position per group id, chosen in the review screen
+  overrides?: Record<number, number>
+}
+
+// A valid row taking part in duplicate detection
+export interface DuplicateCandidate {
+  // Position in the rows passed to finalizeValidation
+  position: number
+  rowIndex: number
+  file?: string
+  sheet?: string
+  lead: ValidatedLead
+}
+
+// Rows that share a phone number (or email), directly or through each other
+export interface DuplicateGroup {
+  // Position of the group's first row, so it stays the same when validation is re-run
+  id: number
+  rows: DuplicateCandidate[]
+  // Position of the row that is uploaded
+  kept: number
+  // What gets uploaded: the kept row's lead, with blanks filled from the others when merging
+  lead: ValidatedLead
+}
+
+/**
+ * Groups candidates sharing a number (and, optionally, an email address) and
+ * picks the row to keep in each. Candidates must be in row order.
+ */
+export function findDuplicateGroups(
+  candidates: DuplicateCandidate[],
+  options: DuplicateOptions = {}
+): DuplicateGroup[] {
+  const parents = candidates.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]]
+      index = parents[index]
+    }
+    return index
+  }
+  // The earlier row is always the root, so a group's root is its first row
+  const union = (a: number, b: number) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA < rootB) parents[rootB] = rootA
+    else if (rootB < rootA) parents[rootA] = rootB
+  }
+
+  const firstByPhone: Record<string, number> = {}
+  const firstByEmail: Record<string, number> = {}
+  candidates.forEach((candidate, index) => {
+    const phone = candidate.lead.number
+    if (phone in firstByPhone) union(firstByPhone[phone], index)
+    else firstByPhone[phone] = index
+
+    const email = options.byEmail ? candidate.lead.email?.toLowerCase() : undefined
+    if (email) {
+      if (email in firstByEmail) union(firstByEmail[email], index)
+      else firstByEmail[email] = index
+    }
+  })
+
+  const members: Record<number, DuplicateCandidate[]> = {}
+  const roots: number[] = []
+  candidates.forEach((candidate, index) => {
+    const root = find(index)
+    if (!members[root]) {
+      members[root] = []
+      roots.push(root)
+    }
+    members[root].push(candidate)
+  })
+
+  return roots
+    .filter(root => members[root].length > 1)
+    .map(root => {
+      const rows = members[root]
+      const id = rows[0].position
+      const override = options.overrides?.[id]
+      const kept = rows.find(row => row.position === override) || pickRow(rows, options.strategy || 'first')
+      return {
+        id,
+        rows,
+        kept: kept.position,
+        lead: options.strategy === 'merge' ? mergeLeads(kept, rows) : kept.lead
+      }
+    })
+}
+
+function pickRow(rows: DuplicateCandidate[], strategy: DuplicateStrategy): DuplicateCandidate {
+  if (strategy === 'last') return rows[rows.length - 1]
+  if (strategy === 'complete') {
+    // Ties go to the earlier row
+    return rows.reduce((best, row) =>
+      countFilledFields(row.lead) > countFilledFields(best.lead) ? row : best
+    )
+  }
+  return rows[0]
+}
+
+function countFilledFields(lead: ValidatedLead): number {
+  const variables = lead.variables || {}
+  return (lead.name ? 1 : 0) +
+    (lead.email ? 1 : 0) +
+    Object.keys(variables).filter(key => variables[key]).length
+}
+
+// Blanks in the kept row are filled from the other rows, in row order
+function mergeLeads(kept: DuplicateCandidate, rows: DuplicateCandidate[]): ValidatedLead {
+  const merged: ValidatedLead = {
+    ...kept.lead,
+    ...(kept.lead.variables && { variables: { ...kept.lead.variables } })
+  }
+  rows.forEach(row => {
+    if (row === kept) return
+    const { name, email, variables = {} } = row.lead
+    if (!merged.name && name) merged.name = name
+    if (!merged.email && email) merged.email = email
+    Object.keys(variables).forEach(key => {
+      if (!variables[key]) return
+      if (!merged.variables) merged.variables = {}
+      if (!merged.variables[key]) merged.variables[key] = variables[key]
+    })
+  })
+  return merged
+}
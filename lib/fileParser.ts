@@ -1,49 +1,159 @@
 import * as XLSX from 'xlsx'
+import { streamCsv, isBlankRow, readBytes } from './csvStream'
+import { detectEncoding, detectDelimiter, detectHeaderRow, tokenizeSample } from './formatDetector'
+import { formatPhoneNumber, resolveCountry } from './phoneFormatter'
+import { isValidEmail } from './dataValidator'
+import { ColumnTransform, compileTransforms } from './transforms'
+import { isKnownState, resolveTimezone } from './timezone'
+import { createAbortError, throwIfAborted } from './abort'
+
+export interface ParseProgress {
+  rowsRead: number
+  bytesRead: number
+  totalBytes: number
+}
+
+export type RowChunkHandler = (
+  rows: Record<string, any>[],
+  progress: ParseProgress
+) => void | Promise<void>
+
+export interface FileFormat {
+  // Delimiter and encoding only apply to CSV/TSV files
+  delimiter?: string
+  encoding?: string
+  // Zero-based index of the row holding the column names; rows above it are skipped
+  headerRow: number
+}
 
 export interface ParsedData {
+  // Worksheet the rows come from; undefined for CSV/TSV files
+  sheetName?: string
+  // How the rows were read: the detected format with any overrides applied
+  format: FileFormat
+  // What was sniffed from the file itself
+  detectedFormat: FileFormat
   headers: string[]
-  rows: Record<string, any>[]
+  // First rows of the file, available before the full file has been read
+  sampleRows: Record<string, any>[]
   totalRows: number
+  // True when totalRows was extrapolated from the sample rather than counted
+  totalRowsEstimated: boolean
+  // Reads every data row in order, handing them out in chunks of chunkSize.
+  // Aborting the signal stops reading with an AbortError.
+  readRows: (onChunk: RowChunkHandler, chunkSize?: number, signal?: AbortSignal) => Promise<number>
+}
+
+export interface ParsedFile {
+  fileName: string
+  // One entry per worksheet, in workbook order. CSV/TSV files have exactly one.
+  sheets: ParsedData[]
+}
+
+export interface VariableMapping {
+  // Name used in assistant prompts, e.g. "company" for {{company}}
+  name: string
+  column: string
+  transforms?: ColumnTransform[]
+}
+
+export type LeadField = 'phone' | 'name' | 'email' | 'country' | 'state' | 'timezone'
+
+export interface ColumnMapping {
+  phoneColumn: string
+  nameColumn?: string
+  emailColumn?: string
+  // Region to parse each row's phone number under; falls back to the default country
+  countryColumn?: string
+  // Used to infer each lead's timezone; a timezone column beats a state column
+  stateColumn?: string
+  timezoneColumn?: string
+  variables?: VariableMapping[]
+  // Cleanup applied to each mapped column before validation
+  transforms?: Partial<Record<LeadField, ColumnTransform[]>>
 }
 
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
 export interface ColumnDetection {
-  field: 'phone' | 'name' | 'email'
+  field: LeadField
   detectedColumn: string | null
   confidence: number
+  // Human-readable explanation of why detectedColumn was picked
+  reason: string
   alternates: string[]
 }
 
-export async function parseFile(file: File): Promise<ParsedData> {
+const SAMPLE_SIZE = 100
+const DEFAULT_CHUNK_SIZE = 1000
+// Bytes read up front to sniff encoding, delimiter and header row
+const SNIFF_BYTES = 64 * 1024
+
+export function isDelimitedFile(fileName: string): boolean {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  return extension === 'csv' || extension === 'tsv' || extension === 'txt'
+}
+
+/**
+ * Any format setting left out of overrides is detected from the file.
+ */
+export async function parseFile(
+  file: File,
+  overrides: Partial<FileFormat> = {},
+  signal?: AbortSignal
+): Promise<ParsedFile> {
+  if (isDelimitedFile(file.name)) {
+    const data = await parseDelimitedFile(file, overrides, signal)
+    return { fileName: file.name, sheets: [data] }
+  }
+
+  return parseWorkbook(file, overrides, signal)
+}
+
+async function parseWorkbook(file: File, overrides: Partial<FileFormat>, signal?: AbortSignal): Promise<ParsedFile> {
+  throwIfAborted(signal)
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
+    const onAbort = () => reader.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+    reader.onloadend = () => signal?.removeEventListener('abort', onAbort)
+    reader.onabort = () => reject(createAbortError())
 
     reader.onload = (e) => {
       try {
         const data = e.target?.result
         const workbook = XLSX.read(data, { type: 'binary' })
         
-        // Get the first sheet
-        const firstSheetName = workbook.SheetNames[0]
-        const worksheet = workbook.Sheets[firstSheetName]
-        
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-          raw: false, // Convert all values to strings
-          defval: '' // Default value for empty cells
+        const sheets = workbook.SheetNames.map(sheetName => {
+          const worksheet = workbook.Sheets[sheetName]
+          const detectedFormat = { headerRow: detectSheetHeaderRow(worksheet) }
+          const format = { ...detectedFormat, ...overrides }
+
+          // Convert to JSON, starting at the header row
+          const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
+            raw: false, // Convert all values to strings
+            defval: '', // Default value for empty cells
+            range: format.headerRow
+          }) as Record<string, any>[]
+
+          return {
+            sheetName,
+            format,
+            detectedFormat,
+            headers: jsonData.length > 0 ? Object.keys(jsonData[0] as object) : [],
+            sampleRows: jsonData.slice(0, SAMPLE_SIZE),
+            totalRows: jsonData.length,
+            totalRowsEstimated: false,
+            readRows: (onChunk: RowChunkHandler, chunkSize = DEFAULT_CHUNK_SIZE, readSignal?: AbortSignal) =>
+              readInMemoryRows(jsonData, file.size, onChunk, chunkSize, readSignal)
+          }
         })
         
-        if (jsonData.length === 0) {
+        if (sheets.every(sheet => sheet.totalRows === 0)) {
           throw new Error('No data found in file')
         }
-
-        // Get headers
-        const headers = Object.keys(jsonData[0] as object)
         
-        resolve({
-          headers,
-          rows: jsonData as Record<string, any>[],
-          totalRows: jsonData.length
-        })
+        resolve({ fileName: file.name, sheets })
       } catch (error) {
         reject(error)
       }
@@ -58,89 +168,406 @@ export async function parseFile(file: File): Promise<ParsedData> {
   })
 }
 
-export function detectColumns(headers: string[]): ColumnDetection[] {
-  const phonePatterns = ['phone', 'mobile', 'cell', 'number', 'telephone', 'contact']
-  const namePatterns = ['name', 'customer', 'client', 'contact', 'person', 'lead']
-  const emailPatterns = ['email', 'mail', 'email_address', 'e-mail']
+function detectSheetHeaderRow(worksheet: XLSX.WorkSheet): number {
+  if (!worksheet['!ref']) return 0
+
+  const range = XLSX.utils.decode_range(worksheet['!ref'])
+  const preview = XLSX.utils.sheet_to_json<string[]>(worksheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: true,
+    range: { s: range.s, e: { r: Math.min(range.e.r, range.s.r + 29), c: range.e.c } }
+  })
+
+  // Row indexes are absolute, so offset by where the sheet's data starts
+  return range.s.r + detectHeaderRow(preview)
+}
+
+async function readInMemoryRows(
+  rows: Record<string, any>[],
+  totalBytes: number,
+  onChunk: RowChunkHandler,
+  chunkSize: number,
+  signal?: AbortSignal
+): Promise<number> {
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    throwIfAborted(signal)
+    const chunk = rows.slice(i, i + chunkSize)
+    const rowsRead = i + chunk.length
+    await onChunk(chunk, {
+      rowsRead,
+      bytesRead: Math.round((rowsRead / rows.length) * totalBytes),
+      totalBytes
+    })
+  }
+  return rows.length
+}
+
+/**
+ * Each setting is detected using the ones before it, so an encoding override
+ * is taken into account when looking for the delimiter and header row.
+ */
+async function sniffDelimitedFormat(
+  file: File,
+  overrides: Partial<FileFormat>,
+  signal?: AbortSignal
+): Promise<FileFormat> {
+  const bytes = new Uint8Array(await readBytes(file.slice(0, SNIFF_BYTES), signal))
+
+  const encoding = detectEncoding(bytes)
+  const text = new TextDecoder(overrides.encoding || encoding).decode(bytes, { stream: true })
+  const delimiter = detectDelimiter(text)
+  const headerRow = detectHeaderRow(tokenizeSample(text, overrides.delimiter || delimiter))
+
+  return { encoding, delimiter, headerRow }
+}
+
+/**
+ * CSV/TSV files are never loaded whole. Only the header and a sample are read
+ * up front; readRows() streams the rest of the file from disk on demand.
+ */
+async function parseDelimitedFile(
+  file: File,
+  overrides: Partial<FileFormat>,
+  signal?: AbortSignal
+): Promise<ParsedData> {
+  const detectedFormat = await sniffDelimitedFormat(file, overrides, signal)
+  const format = { ...detectedFormat, ...overrides }
+
+  let headers: string[] | null = null
+  const sampleRows: Record<string, any>[] = []
+  let rowIndex = 0
+  let rowsSeen = 0
+  let bytesSeen = 0
+  let reachedEnd = false
+
+  await streamCsv(file, {
+    delimiter: format.delimiter!,
+    encoding: format.encoding,
+    signal,
+    onRows: (rows, bytesRead) => {
+      for (const row of rows) {
+        // Skip title/preamble rows above the header
+        if (rowIndex++ < format.headerRow) continue
+        if (!headers) {
+          headers = normalizeHeaders(row)
+          continue
+        }
+        if (isBlankRow(row)) continue
+        rowsSeen++
+        if (sampleRows.length < SAMPLE_SIZE) {
+          sampleRows.push(toRecord(headers, row))
+        }
+      }
+      bytesSeen = bytesRead
+      reachedEnd = bytesRead >= file.size
+      return sampleRows.length < SAMPLE_SIZE
+    }
+  })
+
+  if (!headers || sampleRows.length === 0) {
+    throw new Error('No data found in file')
+  }
+
+  const columns: string[] = headers
+  const readRows = (onChunk: RowChunkHandler, chunkSize = DEFAULT_CHUNK_SIZE, readSignal?: AbortSignal) =>
+    streamRecords(file, format, columns, onChunk, chunkSize, readSignal)
+
+  return {
+    format,
+    detectedFormat,
+    headers,
+    sampleRows,
+    // Small files are covered by the first read, so the count is exact
+    totalRows: reachedEnd ? rowsSeen : Math.round((file.size / bytesSeen) * rowsSeen),
+    totalRowsEstimated: !reachedEnd,
+    readRows
+  }
+}
+
+async function streamRecords(
+  file: File,
+  format: FileFormat,
+  headers: string[],
+  onChunk: RowChunkHandler,
+  chunkSize: number,
+  signal?: AbortSignal
+): Promise<number> {
+  let rowIndex = 0
+  let rowsRead = 0
+  let pending: Record<string, any>[] = []
 
-  const detections: ColumnDetection[] = []
+  await streamCsv(file, {
+    delimiter: format.delimiter!,
+    encoding: format.encoding,
+    signal,
+    onRows: async (rows, bytesRead) => {
+      for (const row of rows) {
+        // Skip everything up to and including the header row
+        if (rowIndex++ <= format.headerRow) continue
+        if (isBlankRow(row)) continue
+        pending.push(toRecord(headers, row))
+        rowsRead++
 
-  // Detect phone column
-  const phoneDetection = detectColumn(headers, phonePatterns)
-  detections.push({
-    field: 'phone',
-    detectedColumn: phoneDetection.column,
-    confidence: phoneDetection.confidence,
-    alternates: phoneDetection.alternates
+        if (pending.length >= chunkSize) {
+          const chunk = pending
+          pending = []
+          await onChunk(chunk, { rowsRead, bytesRead, totalBytes: file.size })
+        }
+      }
+    }
   })
 
-  // Detect name column
-  const nameDetection = detectColumn(headers, namePatterns)
-  detections.push({
-    field: 'name',
-    detectedColumn: nameDetection.column,
-    confidence: nameDetection.confidence,
-    alternates: nameDetection.alternates
+  if (pending.length > 0) {
+    await onChunk(pending, { rowsRead, bytesRead: file.size, totalBytes: file.size })
+  }
+
+  return rowsRead
+}
+
+function normalizeHeaders(row: string[]): string[] {
+  const seen: Record<string, number> = {}
+  return row.map((value, index) => {
+    let header = value.trim() || `Column ${index + 1}`
+    // Mirror XLSX's handling of repeated header names (name, name_1, ...)
+    if (seen[header] !== undefined) {
+      seen[header]++
+      header = `${header}_${seen[header]}`
+    } else {
+      seen[header] = 0
+    }
+    return header
   })
+}
 
-  // Detect email column
-  const emailDetection = detectColumn(headers, emailPatterns)
-  detections.push({
-    field: 'email',
-    detectedColumn: emailDetection.column,
-    confidence: emailDetection.confidence,
-    alternates: emailDetection.alternates
+function toRecord(headers: string[], row: string[]): Record<string, any> {
+  const record: Record<string, any> = {}
+  headers.forEach((header, index) => {
+    record[header] = row[index] ?? ''
   })
+  return record
+}
+
+type DetectableField = ColumnDetection['field']
+
+const HEADER_PATTERNS: Record<DetectableField, string[]> = {
+  phone: ['phone', 'mobile', 'cell', 'number', 'telephone', 'contact'],
+  name: ['name', 'customer', 'client', 'contact', 'person', 'lead'],
+  email: ['email', 'mail', 'email_address', 'e-mail'],
+  country: ['country', 'countrycode', 'nation'],
+  state: ['state', 'province', 'region'],
+  timezone: ['timezone', 'tz', 'zone']
+}
+
+// How far cell values alone can push confidence. Names count for less because
+// any short text column (city, company) looks name-like.
+const CONTENT_WEIGHTS: Record<DetectableField, number> = {
+  phone: 0.8,
+  name: 0.5,
+  email: 0.8,
+  country: 0.5,
+  state: 0.5,
+  timezone: 0.5
+}
+
+const CONTENT_DESCRIPTIONS: Record<DetectableField, string> = {
+  phone: 'valid phone numbers',
+  name: 'names',
+  email: 'email addresses',
+  country: 'countries',
+  state: 'states or provinces',
+  timezone: 'timezones'
+}
+
+const HEADER_REQUIRED: DetectableField[] = ['country', 'state', 'timezone']
+
+const CONTENT_SAMPLE_SIZE = 50
 
-  return detections
+interface ColumnScore {
+  column: string
+  confidence: number
+  reason: string
 }
 
-function detectColumn(headers: string[], patterns: string[]) {
+/**
+ * Scores every column for every field by header name and, when sample rows
+ * are given, by what the cells contain. A column is only ever detected for one
+ * field: the strongest match claims it, so a "contact" column holding phone
+ * numbers is not also offered as the name column.
+ */
+export function detectColumns(
+  headers: string[],
+  sampleRows: Record<string, any>[] = []
+): ColumnDetection[] {
+  const fields: DetectableField[] = ['phone', 'name', 'email', 'country', 'state', 'timezone']
+  const sample = sampleRows.slice(0, CONTENT_SAMPLE_SIZE)
+  const scored = fields.map(field => ({
+    field,
+    scores: detectColumn(headers, sample, field)
+  }))
+
+  const claims = scored
+    .flatMap(({ field, scores }) => scores.map(score => ({ field, ...score })))
+    .sort((a, b) => b.confidence - a.confidence)
+  const assigned: Partial<Record<DetectableField, ColumnScore>> = {}
+  const takenColumns = new Set<string>()
+
+  claims.forEach(claim => {
+    if (assigned[claim.field] || takenColumns.has(claim.column)) return
+    assigned[claim.field] = claim
+    takenColumns.add(claim.column)
+  })
+
+  return scored.map(({ field, scores }) => {
+    const match = assigned[field]
+    return {
+      field,
+      detectedColumn: match?.column || null,
+      confidence: match?.confidence || 0,
+      reason: match?.reason || 'No header name or cell values matched',
+      alternates: scores
+        .filter(score => score.column !== match?.column)
+        .slice(0, 3)
+        .map(score => score.column)
+    }
+  })
+}
+
+function detectColumn(
+  headers: string[],
+  sample: Record<string, any>[],
+  field: DetectableField
+): ColumnScore[] {
+  const patterns = HEADER_PATTERNS[field]
   const normalizedHeaders = headers.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ''))
-  const scores: { column: string; score: number }[] = []
+  const scores: ColumnScore[] = []
   
   headers.forEach((header, index) => {
     const normalized = normalizedHeaders[index]
     let score = 0
+    let headerReason = ''
+    let bestPatternScore = 0
     
     patterns.forEach(pattern => {
+      let patternScore = 0
       if (normalized === pattern) {
-        score += 10 // Exact match
+        patternScore = 10 // Exact match
       } else if (normalized.includes(pattern)) {
-        score += 5 // Contains pattern
+        patternScore = 5 // Contains pattern
       } else if (pattern.includes(normalized) && normalized.length > 3) {
-        score += 2 // Pattern contains header
+        patternScore = 2 // Pattern contains header
+      }
+      score += patternScore
+
+      if (patternScore > bestPatternScore) {
+        bestPatternScore = patternScore
+        headerReason = patternScore === 10
+          ? `header is "${pattern}"`
+          : `header resembles "${pattern}"`
       }
     })
-    
-    if (score > 0) {
-      scores.push({ column: header, score })
+
+    const headerConfidence = Math.min(score / 10, 1)
+    const values = sample
+      .map(row => String(row[header] ?? '').trim())
+      .filter(value => value !== '')
+
+    if (values.length === 0) {
+      // Nothing to look at, so fall back to the header alone
+      if (score > 0) {
+        scores.push({ column: header, confidence: headerConfidence, reason: headerReason })
+      }
+      return
     }
+
+    const contentConfidence = values.reduce((sum, value) => sum + scoreValue(value, field), 0) / values.length
+    if (score === 0 && contentConfidence < 0.5) return
+    // Two-letter codes are ambiguous ("CA" is a state, a province and a
+    // country), so location fields need a header match
+    if (score === 0 && HEADER_REQUIRED.includes(field)) return
+
+    const reasons = headerReason ? [headerReason] : []
+    if (contentConfidence > 0) {
+      reasons.push(`${Math.round(contentConfidence * 100)}% of sampled values look like ${CONTENT_DESCRIPTIONS[field]}`)
+    }
+
+    scores.push({
+      column: header,
+      confidence: Math.min(headerConfidence * 0.5 + contentConfidence * CONTENT_WEIGHTS[field], 1),
+      reason: reasons.join('; ')
+    })
   })
   
-  scores.sort((a, b) => b.score - a.score)
-  
-  const bestMatch = scores[0]
-  const alternates = scores.slice(1, 4).map(s => s.column)
-  
-  return {
-    column: bestMatch?.column || null,
-    confidence: bestMatch ? Math.min(bestMatch.score / 10, 1) : 0,
-    alternates
+  return scores.sort((a, b) => b.confidence - a.confidence)
+}
+
+function scoreValue(value: string, field: DetectableField): number {
+  switch (field) {
+    case 'phone':
+      return formatPhoneNumber(value).isValid ? 1 : 0
+    case 'email':
+      return isValidEmail(value) ? 1 : 0
+    case 'country':
+      return resolveCountry(value) ? 1 : 0
+    case 'state':
+      return isKnownState(value) ? 1 : 0
+    case 'timezone':
+      return resolveTimezone(value) ? 1 : 0
+    case 'name': {
+      if (value.includes('@')) return 0
+      const tokens = value.split(/\s+/)
+      const nameLike = tokens.every(token => /^[A-Za-zÀ-ÖØ-öø-ÿ][A-Za-zÀ-ÖØ-öø-ÿ'’.-]*$/.test(token))
+      if (!nameLike || tokens.length > 4) return 0
+      // First name only columns are common, but so are one-word cities and tags
+      return tokens.length >= 2 ? 1 : 0.5
+    }
   }
 }
 
 export function extractDataByColumns(
   rows: Record<string, any>[],
-  phoneColumn: string,
-  nameColumn?: string,
-  emailColumn?: string
+  mapping: ColumnMapping,
+  startIndex: number = 0,
+  source: { file?: string; sheet?: string } = {}
 ) {
-  return rows.map((row, index) => ({
-    rowIndex: index + 1,
-    phone: row[phoneColumn] || '',
-    name: nameColumn ? row[nameColumn] || '' : '',
-    email: emailColumn ? row[emailColumn] || '' : '',
-    originalData: row
-  }))
+  const {
+    phoneColumn,
+    nameColumn,
+    emailColumn,
+    countryColumn,
+    stateColumn,
+    timezoneColumn,
+    variables = [],
+    transforms = {}
+  } = mapping
+  // Compiled once per chunk rather than once per cell
+  const transformPhone = compileTransforms(transforms.phone || [])
+  const transformName = compileTransforms(transforms.name || [])
+  const transformEmail = compileTransforms(transforms.email || [])
+  const transformCountry = compileTransforms(transforms.country || [])
+  const transformState = compileTransforms(transforms.state || [])
+  const transformTimezone = compileTransforms(transforms.timezone || [])
+  const variableTransforms = variables.map(variable => compileTransforms(variable.transforms || []))
+
+  return rows.map((row, index) => {
+    const variableValues: Record<string, string> = {}
+    variables.forEach((variable, i) => {
+      variableValues[variable.name] = variableTransforms[i](row[variable.column], row)
+    })
+
+    return {
+      rowIndex: startIndex + index + 1,
+      file: source.file,
+      sheet: source.sheet,
+      phone: transforms.phone?.length ? transformPhone(row[phoneColumn], row) : row[phoneColumn] || '',
+      name: nameColumn ? transformName(row[nameColumn] || '', row) : '',
+      email: emailColumn ? transformEmail(row[emailColumn] || '', row) : '',
+      country: countryColumn ? transformCountry(row[countryColumn], row) : undefined,
+      state: stateColumn ? transformState(row[stateColumn], row) : undefined,
+      timezone: timezoneColumn ? transformTimezone(row[timezoneColumn], row) : undefined,
+      variables: variableValues,
+      originalData: row
+    }
+  })
 }
\ No newline at end of file
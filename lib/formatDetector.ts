@@ -0,0 +1,100 @@
+import { CsvTokenizer, isBlankRow } from './csvStream'
+
+export const DELIMITERS = [',', ';', '\t', '|']
+export const ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252']
+
+// Rows inspected when looking for the header row
+const HEADER_SCAN_ROWS = 30
+
+export function detectEncoding(bytes: Uint8Array): string {
+  // Byte order marks are definitive
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+  // UTF-16 without a BOM: mostly-ASCII text leaves every other byte zero
+  let evenZeros = 0
+  let oddZeros = 0
+  const sampleLength = Math.min(bytes.length, 4096)
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenZeros++
+      else oddZeros++
+    }
+  }
+  if (oddZeros > sampleLength / 4 && evenZeros < oddZeros / 10) return 'utf-16le'
+  if (evenZeros > sampleLength / 4 && oddZeros < evenZeros / 10) return 'utf-16be'
+
+  // Anything that isn't valid UTF-8 is assumed to be a legacy Windows export
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true })
+    return 'utf-8'
+  } catch {
+    return 'windows-1252'
+  }
+}
+
+/**
+ * Picks the delimiter that splits the sample into the most rows with the same,
+ * greater-than-one number of fields. Preamble rows don't matter much because
+ * only the most common field count is considered.
+ */
+export function detectDelimiter(text: string): string {
+  let best = { delimiter: ',', score: 0 }
+
+  DELIMITERS.forEach(delimiter => {
+    const rows = tokenizeSample(text, delimiter)
+    const { value: fieldCount, frequency } = mode(rows.map(row => row.length))
+    const score = fieldCount > 1 ? frequency * (fieldCount - 1) : 0
+    if (score > best.score) {
+      best = { delimiter, score }
+    }
+  })
+
+  return best.delimiter
+}
+
+/**
+ * Returns the index of the first row that looks like a header: about as wide
+ * as the data below it and made of labels rather than numbers. Title and
+ * preamble rows usually fill only one or two cells, so they are skipped.
+ */
+export function detectHeaderRow(rows: string[][]): number {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS)
+  const filledCounts = scanned
+    .filter(row => !isBlankRow(row))
+    .map(countFilled)
+  const { value: width } = mode(filledCounts)
+
+  if (width < 2) return 0
+
+  const index = scanned.findIndex(row => {
+    const labels = row.filter(cell => cell.trim() !== '' && !/^[\d\s+().,-]+$/.test(cell))
+    return countFilled(row) >= width * 0.8 && labels.length >= countFilled(row) * 0.5
+  })
+
+  return index >= 0 ? index : 0
+}
+
+export function tokenizeSample(text: string, delimiter: string): string[][] {
+  const tokenizer = new CsvTokenizer(delimiter)
+  const rows = tokenizer.push(text)
+  // The sample is cut at an arbitrary byte, so its last line is likely partial
+  return rows.length > 1 ? rows : rows.concat(tokenizer.flush())
+}
+
+function countFilled(row: string[]): number {
+  return row.filter(cell => cell.trim() !== '').length
+}
+
+function mode(values: number[]): { value: number; frequency: number } {
+  const counts: Record<number, number> = {}
+  let best = { value: 0, frequency: 0 }
+  values.forEach(value => {
+    counts[value] = (counts[value] || 0) + 1
+    if (counts[value] > best.frequency) {
+      best = { value, frequency: counts[value] }
+    }
+  })
+  return best
+}
@@ -0,0 +1,161 @@
+import { ColumnMapping } from './fileParser'
+
+export interface MappingTemplate {
+  id: string
+  name: string
+  // Identifies files with the same layout, see getHeaderSignature()
+  headerSignature: string
+  headers: string[]
+  mapping: ColumnMapping
+  createdAt: string
+}
+
+const STORAGE_KEY = 'vapi-campaign-builder:mapping-templates'
+const EXPORT_VERSION = 1
+
+// Fired on window whenever the stored templates change, so every open
+// FieldMapper can refresh its list
+export const TEMPLATES_CHANGED_EVENT = 'mapping-templates-changed'
+
+/**
+ * Column order and letter case vary between exports of the same CRM report,
+ * so neither is part of the signature.
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers
+    .map(header => header.trim().toLowerCase())
+    .sort()
+    .join('|')
+}
+
+export function loadTemplates(): MappingTemplate[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    const templates = stored ? JSON.parse(stored) : []
+    return Array.isArray(templates) ? templates.filter(isTemplate) : []
+  } catch (error) {
+    console.error('Failed to load mapping templates:', error)
+    return []
+  }
+}
+
+export function findTemplateForHeaders(headers: string[]): MappingTemplate | undefined {
+  const signature = getHeaderSignature(headers)
+  // Most recently saved wins when several templates share a layout
+  return loadTemplates()
+    .filter(template => template.headerSignature === signature)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+}
+
+/**
+ * Saving under an existing name replaces that template.
+ */
+export function saveTemplate(name: string, headers: string[], mapping: ColumnMapping): MappingTemplate {
+  const template: MappingTemplate = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    headerSignature: getHeaderSignature(headers),
+    headers,
+    mapping,
+    createdAt: new Date().toISOString()
+  }
+
+  storeTemplates([
+    ...loadTemplates().filter(existing => existing.name !== template.name),
+    template
+  ])
+  return template
+}
+
+export function deleteTemplate(id: string) {
+  storeTemplates(loadTemplates().filter(template => template.id !== id))
+}
+
+export function exportTemplates(): string {
+  return JSON.stringify({ version: EXPORT_VERSION, templates: loadTemplates() }, null, 2)
+}
+
+/**
+ * Merges templates from an exported JSON file into local storage. Imported
+ * templates replace local ones with the same name. Returns how many were read.
+ */
+export function importTemplates(json: string): number {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('Template file is not valid JSON')
+  }
+
+  const imported = isRecord(parsed) && Array.isArray(parsed.templates) ? parsed.templates : null
+  // createdAt is filled in when an older export left it out
+  const templates = imported && imported.map((template: unknown): unknown =>
+    isRecord(template) && template.createdAt === undefined
+      ? { ...template, createdAt: new Date().toISOString() }
+      : template
+  )
+  if (!templates || !templates.every(isTemplate)) {
+    throw new Error('Template file does not contain mapping templates')
+  }
+
+  const importedNames = templates.map(template => template.name)
+  storeTemplates([
+    ...loadTemplates().filter(existing => !importedNames.includes(existing.name)),
+    ...templates.map(template => ({
+      ...template,
+      // Recompute in case the file came from an older version
+      headerSignature: getHeaderSignature(template.headers)
+    }))
+  ])
+  return templates.length
+}
+
+function storeTemplates(templates: MappingTemplate[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(templates))
+  window.dispatchEvent(new Event(TEMPLATES_CHANGED_EVENT))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+// Checks every field the rest of the app reads, as imported files can hold anything
+function isTemplate(value: unknown): value is MappingTemplate {
+  if (!isRecord(value) || !isRecord(value.mapping)) return false
+  const mapping = value.mapping
+  const { variables, transforms } = mapping
+  return (
+    isString(value.id) &&
+    isString(value.name) &&
+    isString(value.createdAt) &&
+    Array.isArray(value.headers) &&
+    value.headers.every(isString) &&
+    isString(mapping.phoneColumn) &&
+    ['nameColumn', 'emailColumn', 'countryColumn', 'stateColumn', 'timezoneColumn']
+      .every(key => mapping[key] === undefined || isString(mapping[key])) &&
+    (variables === undefined || (
+      Array.isArray(variables) &&
+      variables.every((v: unknown) =>
+        isRecord(v) &&
+        isString(v.name) &&
+        isString(v.column) &&
+        (v.transforms === undefined || isTransformList(v.transforms))
+      )
+    )) &&
+    (transforms === undefined || (
+      isRecord(transforms) &&
+      Object.keys(transforms).every(field => isTransformList(transforms[field]))
+    ))
+  )
+}
+
+function isTransformList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((transform: unknown) =>
+    isRecord(transform) &&
+    isString(transform.type) &&
+    (transform.type !== 'concat' || isString(transform.column))
+  )
+}
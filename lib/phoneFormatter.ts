@@ -1,11 +1,103 @@
-import { parsePhoneNumber, CountryCode } from 'libphonenumber-js'
+// The max metadata is needed to tell mobile, landline, toll-free etc. apart
+import { parsePhoneNumber, CountryCode, NumberType, getCountries } from 'libphonenumber-js/max'
+
+export type LineType =
+  | 'mobile'
+  | 'fixed-line'
+  // Numbering plans such as the US and Canada don't distinguish the two
+  | 'fixed-line-or-mobile'
+  | 'toll-free'
+  | 'premium-rate'
+  | 'shared-cost'
+  | 'voip'
+  | 'personal'
+  | 'pager'
+  | 'uan'
+  | 'voicemail'
+  | 'unknown'
+
+export const LINE_TYPE_LABELS: Record<LineType, string> = {
+  mobile: 'Mobile',
+  'fixed-line': 'Landline',
+  'fixed-line-or-mobile': 'Landline or mobile',
+  'toll-free': 'Toll-free',
+  'premium-rate': 'Premium-rate',
+  'shared-cost': 'Shared-cost',
+  voip: 'VoIP',
+  personal: 'Personal number',
+  pager: 'Pager',
+  uan: 'Universal access',
+  voicemail: 'Voicemail',
+  unknown: 'Unknown'
+}
 
 export interface PhoneFormatResult {
   isValid: boolean
   formatted?: string
+  // Country the number belongs to, which differs from the default region for +-prefixed numbers
+  country?: CountryCode
+  lineType?: LineType
   error?: string
 }
 
+export interface CountryOption {
+  code: CountryCode
+  name: string
+}
+
+// Common spellings that aren't ISO codes or English display names
+const COUNTRY_ALIASES: Record<string, CountryCode> = {
+  usa: 'US',
+  'united states of america': 'US',
+  america: 'US',
+  uk: 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  'great britain': 'GB',
+  aus: 'AU',
+  can: 'CA'
+}
+
+let countryOptions: CountryOption[] | null = null
+let countriesByName: Record<string, CountryCode> | null = null
+
+/**
+ * Every region libphonenumber knows, with English names, sorted by name.
+ */
+export function getCountryOptions(): CountryOption[] {
+  if (!countryOptions) {
+    const displayNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+      ? new Intl.DisplayNames(['en'], { type: 'region' })
+      : null
+    countryOptions = getCountries()
+      .map(code => ({ code, name: displayNames?.of(code) || code }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+  return countryOptions
+}
+
+/**
+ * Reads a country cell ("GB", "uk", "United Kingdom") as a region code.
+ * Returns undefined for blank or unrecognised values.
+ */
+export function resolveCountry(value: unknown): CountryCode | undefined {
+  const normalized = String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ')
+  if (!normalized) return undefined
+
+  if (COUNTRY_ALIASES[normalized]) return COUNTRY_ALIASES[normalized]
+
+  if (!countriesByName) {
+    countriesByName = {}
+    getCountryOptions().forEach(({ code, name }) => {
+      countriesByName![code.toLowerCase()] = code
+      countriesByName![name.toLowerCase()] = code
+    })
+  }
+  return countriesByName[normalized]
+}
+
 export function formatPhoneNumber(phone: string, defaultCountry: CountryCode = 'US'): PhoneFormatResult {
   if (!phone || typeof phone !== 'string') {
     return {
@@ -36,7 +128,9 @@ export function formatPhoneNumber(phone: string, defaultCountry: CountryCode = '
     
     return {
       isValid: true,
-      formatted: phoneNumber.format('E.164')
+      formatted: phoneNumber.format('E.164'),
+      country: phoneNumber.country,
+      lineType: toLineType(phoneNumber.getType())
     }
   } catch (error) {
     return {
@@ -44,4 +138,22 @@ export function formatPhoneNumber(phone: string, defaultCountry: CountryCode = '
       error: error instanceof Error ? error.message : 'Failed to parse phone number'
     }
   }
-}
\ No newline at end of file
+}
+
+const LINE_TYPES: Record<NonNullable<NumberType>, LineType> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'fixed-line',
+  FIXED_LINE_OR_MOBILE: 'fixed-line-or-mobile',
+  TOLL_FREE: 'toll-free',
+  PREMIUM_RATE: 'premium-rate',
+  SHARED_COST: 'shared-cost',
+  VOIP: 'voip',
+  PERSONAL_NUMBER: 'personal',
+  PAGER: 'pager',
+  UAN: 'uan',
+  VOICEMAIL: 'voicemail'
+}
+
+function toLineType(type: NumberType): LineType {
+  return type ? LINE_TYPES[type] : 'unknown'
+}
@@ -0,0 +1,63 @@
+import { Assistant } from './vapiClient'
+import { ValidatedLead } from './dataValidator'
+
+// Variables Vapi fills in on its own, so they never need a mapped column
+const BUILT_IN_VARIABLES = ['now', 'date', 'time', 'month', 'day', 'year']
+const BUILT_IN_PREFIXES = ['customer.', 'phoneNumber.', 'assistant.', 'call.']
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g
+
+/**
+ * Returns the variable names used as {{placeholders}} in text, in order of
+ * first appearance. Liquid filters ({{ name | upcase }}) are stripped and
+ * quoted literals ({{ "now" | date: ... }}) are ignored.
+ */
+export function extractPlaceholders(text: string): string[] {
+  const names: string[] = []
+  let match: RegExpExecArray | null
+
+  PLACEHOLDER_PATTERN.lastIndex = 0
+  while ((match = PLACEHOLDER_PATTERN.exec(text)) !== null) {
+    const name = match[1].split('|')[0].trim()
+    if (!name || /^["']/.test(name)) continue
+    if (BUILT_IN_VARIABLES.includes(name)) continue
+    if (BUILT_IN_PREFIXES.some(prefix => name.startsWith(prefix))) continue
+    if (!names.includes(name)) {
+      names.push(name)
+    }
+  }
+
+  return names
+}
+
+export function getAssistantPlaceholders(assistant: Assistant): string[] {
+  const texts = [
+    assistant.firstMessage || '',
+    ...(assistant.model?.messages || [])
+      .filter(message => message.role === 'system')
+      .map(message => message.content || '')
+  ]
+
+  const names: string[] = []
+  texts.forEach(text => {
+    extractPlaceholders(text).forEach(name => {
+      if (!names.includes(name)) names.push(name)
+    })
+  })
+  return names
+}
+
+/**
+ * Counts, per placeholder, the leads that would hear an empty value for it.
+ */
+export function countMissingValues(
+  leads: ValidatedLead[],
+  placeholders: string[]
+): Record<string, number> {
+  const missing: Record<string, number> = {}
+  placeholders.forEach(name => {
+    const count = leads.filter(lead => !lead.variables?.[name]).length
+    if (count > 0) missing[name] = count
+  })
+  return missing
+}
@@ -0,0 +1,48 @@
+// Assistants, workflows and phone numbers used in recent campaigns, pinned to the top of their pickers
+
+export type ResourceKind = 'assistant' | 'workflow' | 'phoneNumber'
+
+// IDs per kind, most recently used first
+export type RecentResources = Record<ResourceKind, string[]>
+
+const STORAGE_KEY = 'vapi-campaign-builder:recent-resources'
+const MAX_RECENT = 5
+const KINDS: ResourceKind[] = ['assistant', 'workflow', 'phoneNumber']
+
+export function emptyRecentResources(): RecentResources {
+  return { assistant: [], workflow: [], phoneNumber: [] }
+}
+
+export function loadRecentResources(): RecentResources {
+  const recent = emptyRecentResources()
+  if (typeof window === 'undefined') return recent
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    const parsed = stored ? JSON.parse(stored) : {}
+    KINDS.forEach(kind => {
+      if (Array.isArray(parsed[kind])) {
+        recent[kind] = parsed[kind].filter((id: unknown) => typeof id === 'string').slice(0, MAX_RECENT)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to load recent resources:', error)
+  }
+  return recent
+}
+
+// Moves the given IDs to the front of their lists and returns the updated lists
+export function markResourcesUsed(used: Partial<Record<ResourceKind, string>>): RecentResources {
+  const recent = loadRecentResources()
+  KINDS.forEach(kind => {
+    const id = used[kind]
+    if (!id) return
+    recent[kind] = [id, ...recent[kind].filter(existing => existing !== id)].slice(0, MAX_RECENT)
+  })
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(recent))
+  } catch (error) {
+    // Pinning is a convenience, so a full storage quota isn't worth an alert
+    console.error('Failed to save recent resources:', error)
+  }
+  return recent
+}
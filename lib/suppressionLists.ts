@@ -0,0 +1,119 @@
+import { CountryCode } from 'libphonenumber-js'
+import { streamCsv, readBytes } from './csvStream'
+import { detectEncoding, detectDelimiter } from './formatDetector'
+import { formatPhoneNumber } from './phoneFormatter'
+
+export interface SuppressionList {
+  id: string
+  name: string
+  // E.164 numbers
+  numbers: string[]
+  // Cells in the uploaded file that weren't a valid phone number
+  skippedRows: number
+  // Disabled lists are kept but not applied
+  enabled: boolean
+  createdAt: string
+}
+
+// A list ready for lookups during validation
+export interface SuppressionSet {
+  name: string
+  numbers: Set<string>
+}
+
+const STORAGE_KEY = 'vapi-campaign-builder:suppression-lists'
+const SNIFF_BYTES = 64 * 1024
+
+export function loadSuppressionLists(): SuppressionList[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Failed to load suppression lists:', error)
+    return []
+  }
+}
+
+export function getActiveSuppressionSets(): SuppressionSet[] {
+  return loadSuppressionLists()
+    .filter(list => list.enabled)
+    .map(list => ({ name: list.name, numbers: new Set(list.numbers) }))
+}
+
+/**
+ * Reads a CSV/TXT of phone numbers into a stored list. The first cell of each
+ * row that is a valid phone number is used, so header rows and extra columns
+ * (names, dates added) are skipped.
+ */
+export async function importSuppressionFile(
+  file: File,
+  defaultCountry: CountryCode = 'US'
+): Promise<SuppressionList> {
+  const bytes = new Uint8Array(await readBytes(file.slice(0, SNIFF_BYTES)))
+  const encoding = detectEncoding(bytes)
+  const delimiter = detectDelimiter(new TextDecoder(encoding).decode(bytes, { stream: true }))
+
+  const numbers = new Set<string>()
+  let skippedRows = 0
+
+  await streamCsv(file, {
+    delimiter,
+    encoding,
+    onRows: rows => {
+      rows.forEach(row => {
+        let found = false
+        for (const cell of row) {
+          const result = formatPhoneNumber(cell.trim(), defaultCountry)
+          if (result.isValid && result.formatted) {
+            numbers.add(result.formatted)
+            found = true
+            break
+          }
+        }
+        if (!found && row.some(cell => cell.trim() !== '')) skippedRows++
+      })
+    }
+  })
+
+  if (numbers.size === 0) {
+    throw new Error(`No valid phone numbers found in ${file.name}`)
+  }
+
+  // Names label the per-list counts in reports, so keep them unique
+  const existing = loadSuppressionLists()
+  const baseName = file.name.replace(/\.[^.]+$/, '')
+  let name = baseName
+  for (let n = 2; existing.some(list => list.name === name); n++) {
+    name = `${baseName} (${n})`
+  }
+
+  const list: SuppressionList = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    numbers: Array.from(numbers),
+    skippedRows,
+    enabled: true,
+    createdAt: new Date().toISOString()
+  }
+
+  storeLists([...existing, list])
+  return list
+}
+
+export function setSuppressionListEnabled(id: string, enabled: boolean) {
+  storeLists(loadSuppressionLists().map(list => list.id === id ? { ...list, enabled } : list))
+}
+
+export function deleteSuppressionList(id: string) {
+  storeLists(loadSuppressionLists().filter(list => list.id !== id))
+}
+
+function storeLists(lists: SuppressionList[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(lists))
+  } catch {
+    // Browsers allow roughly 5MB per site, a few hundred thousand numbers
+    throw new Error('Not enough browser storage for this suppression list. Remove an older list and try again.')
+  }
+}
@@ -0,0 +1,348 @@
+import { CountryCode } from 'libphonenumber-js'
+
+export const UNKNOWN_TIMEZONE = 'Unknown'
+
+export interface TimezoneInference {
+  timezone?: string
+  // Where the timezone came from, strongest first
+  source?: 'column' | 'state' | 'phone'
+}
+
+export interface CallingWindow {
+  // Local times as "HH:MM", 24-hour
+  start: string
+  end: string
+  // Warn and create anyway, or refuse to create the campaign
+  mode: 'warn' | 'block'
+}
+
+export interface CallingWindowCheck {
+  // Leads outside the window at the given time, per timezone
+  outside: Record<string, number>
+  outsideCount: number
+  unknownCount: number
+}
+
+export const DEFAULT_CALLING_WINDOW: CallingWindow = { start: '08:00', end: '21:00', mode: 'warn' }
+
+// Dominant zone per NANP area code. Codes that span zones (e.g. 850 in the
+// Florida panhandle) go to the zone most of their numbers are in.
+const US_AREA_CODES: Record<string, string> = {
+  'America/New_York':
+    '201 202 203 207 212 215 216 220 223 227 229 231 234 239 240 248 252 260 267 269 272 276 283 301 302 304 305 ' +
+    '313 315 317 321 324 326 329 330 332 336 339 347 351 352 363 380 386 401 404 407 410 412 413 419 423 434 436 ' +
+    '440 443 445 463 470 472 475 478 484 502 508 513 516 517 518 540 551 561 567 570 571 574 582 585 586 603 606 ' +
+    '607 609 610 614 616 617 624 631 640 645 646 656 667 678 679 680 681 686 689 703 704 706 716 717 718 724 727 ' +
+    '728 732 734 740 743 754 757 762 765 770 771 772 774 781 786 802 803 804 810 812 813 814 826 835 838 839 843 ' +
+    '845 848 854 856 857 859 860 862 863 864 865 878 904 906 908 910 912 914 917 919 929 930 934 937 941 943 947 ' +
+    '948 954 959 973 978 980 984 989',
+  'America/Chicago':
+    '205 210 214 217 218 219 224 225 228 235 251 254 256 262 270 274 281 308 309 312 314 316 318 319 320 325 327 ' +
+    '331 334 337 346 353 361 364 402 405 409 414 417 430 432 447 448 457 464 469 479 483 501 504 507 512 515 531 ' +
+    '534 539 557 563 572 573 580 601 605 608 612 615 618 620 629 630 636 641 651 659 660 662 682 701 708 712 713 ' +
+    '715 726 730 731 737 763 769 773 779 785 806 815 816 817 830 832 847 850 861 870 872 901 903 913 918 920 924 ' +
+    '931 936 938 940 945 952 956 972 975 979 985',
+  'America/Denver': '208 303 307 385 406 435 505 575 719 720 801 915 970 983 986',
+  'America/Phoenix': '480 520 602 623 928',
+  'America/Los_Angeles':
+    '206 209 213 253 279 310 323 341 350 360 369 408 415 424 425 442 458 503 509 510 530 541 559 562 564 619 626 ' +
+    '628 650 657 661 669 702 707 714 725 738 747 760 775 805 818 820 831 837 840 858 909 916 925 949 951 971',
+  'America/Anchorage': '907',
+  'Pacific/Honolulu': '808'
+}
+
+const CA_AREA_CODES: Record<string, string> = {
+  'America/Toronto':
+    '226 249 263 289 343 354 365 367 382 416 418 437 438 450 468 514 519 548 579 581 613 647 683 705 742 753 807 ' +
+    '819 873 905 942',
+  'America/Halifax': '428 506 782 902',
+  'America/St_Johns': '709 879',
+  'America/Winnipeg': '204 431 584',
+  'America/Regina': '306 474 639',
+  'America/Edmonton': '368 403 587 780 825',
+  'America/Vancouver': '236 250 257 604 672 778'
+}
+
+// Australian landlines by the digit after +61; mobiles (4) and 8 (SA/WA/NT) span zones
+const AU_AREA_CODES: Record<string, string> = {
+  'Australia/Sydney': '2',
+  'Australia/Melbourne': '3',
+  'Australia/Brisbane': '7'
+}
+
+// Countries that use a single zone
+const COUNTRY_TIMEZONES: Partial<Record<CountryCode, string>> = {
+  GB: 'Europe/London',
+  IE: 'Europe/Dublin',
+  FR: 'Europe/Paris',
+  DE: 'Europe/Berlin',
+  IT: 'Europe/Rome',
+  NL: 'Europe/Amsterdam',
+  BE: 'Europe/Brussels',
+  CH: 'Europe/Zurich',
+  AT: 'Europe/Vienna',
+  SE: 'Europe/Stockholm',
+  NO: 'Europe/Oslo',
+  DK: 'Europe/Copenhagen',
+  FI: 'Europe/Helsinki',
+  PL: 'Europe/Warsaw',
+  GR: 'Europe/Athens',
+  NZ: 'Pacific/Auckland',
+  IN: 'Asia/Kolkata',
+  SG: 'Asia/Singapore',
+  HK: 'Asia/Hong_Kong',
+  JP: 'Asia/Tokyo',
+  KR: 'Asia/Seoul',
+  PH: 'Asia/Manila',
+  IL: 'Asia/Jerusalem',
+  AE: 'Asia/Dubai',
+  ZA: 'Africa/Johannesburg',
+  PR: 'America/Puerto_Rico',
+  GU: 'Pacific/Guam',
+  VI: 'America/St_Thomas',
+  JM: 'America/Jamaica'
+}
+
+const US_STATES: Record<string, string> = {
+  'America/New_York':
+    'CT connecticut|DE delaware|DC district of columbia|FL florida|GA georgia|IN indiana|ME maine|MD maryland|' +
+    'MA massachusetts|MI michigan|NH new hampshire|NJ new jersey|NY new york|NC north carolina|OH ohio|' +
+    'PA pennsylvania|RI rhode island|SC south carolina|VT vermont|VA virginia|WV west virginia|KY kentucky',
+  'America/Chicago':
+    'AL alabama|AR arkansas|IL illinois|IA iowa|KS kansas|LA louisiana|MN minnesota|MS mississippi|MO missouri|' +
+    'NE nebraska|ND north dakota|OK oklahoma|SD south dakota|TN tennessee|TX texas|WI wisconsin',
+  'America/Denver': 'CO colorado|ID idaho|MT montana|NM new mexico|UT utah|WY wyoming',
+  'America/Phoenix': 'AZ arizona',
+  'America/Los_Angeles': 'CA california|NV nevada|OR oregon|WA washington',
+  'America/Anchorage': 'AK alaska',
+  'Pacific/Honolulu': 'HI hawaii'
+}
+
+const CA_PROVINCES: Record<string, string> = {
+  'America/Toronto': 'ON ontario|QC quebec|QC québec',
+  'America/Halifax': 'NS nova scotia|NB new brunswick|PE prince edward island',
+  'America/St_Johns': 'NL newfoundland and labrador|NL newfoundland',
+  'America/Winnipeg': 'MB manitoba',
+  'America/Regina': 'SK saskatchewan',
+  'America/Edmonton': 'AB alberta|NT northwest territories',
+  'America/Vancouver': 'BC british columbia',
+  'America/Whitehorse': 'YT yukon',
+  'America/Iqaluit': 'NU nunavut'
+}
+
+const AU_STATES: Record<string, string> = {
+  'Australia/Sydney': 'NSW new south wales|ACT australian capital territory',
+  'Australia/Melbourne': 'VIC victoria',
+  'Australia/Hobart': 'TAS tasmania',
+  'Australia/Brisbane': 'QLD queensland',
+  'Australia/Adelaide': 'SA south australia',
+  'Australia/Darwin': 'NT northern territory',
+  'Australia/Perth': 'WA western australia'
+}
+
+const TIMEZONE_ABBREVIATIONS: Record<string, string> = {
+  et: 'America/New_York', est: 'America/New_York', edt: 'America/New_York', eastern: 'America/New_York',
+  ct: 'America/Chicago', cst: 'America/Chicago', cdt: 'America/Chicago', central: 'America/Chicago',
+  mt: 'America/Denver', mst: 'America/Denver', mdt: 'America/Denver', mountain: 'America/Denver',
+  pt: 'America/Los_Angeles', pst: 'America/Los_Angeles', pdt: 'America/Los_Angeles', pacific: 'America/Los_Angeles',
+  akst: 'America/Anchorage', akdt: 'America/Anchorage', alaska: 'America/Anchorage',
+  hst: 'Pacific/Honolulu', hawaii: 'Pacific/Honolulu',
+  ast: 'America/Halifax', atlantic: 'America/Halifax',
+  nst: 'America/St_Johns', newfoundland: 'America/St_Johns',
+  gmt: 'Europe/London', bst: 'Europe/London',
+  aest: 'Australia/Sydney', acst: 'Australia/Adelaide', awst: 'Australia/Perth'
+}
+
+const areaCodeTables = {
+  US: invert(US_AREA_CODES),
+  CA: invert(CA_AREA_CODES),
+  AU: invert(AU_AREA_CODES)
+}
+
+const regionTables: Partial<Record<CountryCode, Record<string, string>>> = {
+  US: invertRegions(US_STATES),
+  CA: invertRegions(CA_PROVINCES),
+  AU: invertRegions(AU_STATES)
+}
+
+/**
+ * Infers an IANA timezone for a lead. A timezone column wins, then a state or
+ * province column, then the number's country and area code.
+ */
+export function inferTimezone(
+  e164: string,
+  country?: CountryCode,
+  state?: string,
+  timezone?: string
+): TimezoneInference {
+  const fromColumn = resolveTimezone(timezone)
+  if (fromColumn) return { timezone: fromColumn, source: 'column' }
+
+  const stateKey = state?.trim().toLowerCase()
+  const fromState = stateKey && country ? regionTables[country]?.[stateKey] : undefined
+  if (fromState) return { timezone: fromState, source: 'state' }
+
+  const fromPhone = country ? timezoneFromPhone(e164, country) : undefined
+  if (fromPhone) return { timezone: fromPhone, source: 'phone' }
+
+  return {}
+}
+
+// Any US state, Canadian province or Australian state, by code or name
+export function isKnownState(value: string): boolean {
+  const key = value.trim().toLowerCase()
+  return Object.keys(regionTables).some(country => regionTables[country as CountryCode]![key] !== undefined)
+}
+
+/**
+ * Reads a timezone cell: an IANA name ("America/Chicago") or a common
+ * abbreviation ("CST", "Eastern").
+ */
+export function resolveTimezone(value?: string): string | undefined {
+  const trimmed = value?.trim()
+  if (!trimmed) return undefined
+
+  const abbreviation = TIMEZONE_ABBREVIATIONS[trimmed.toLowerCase()]
+  if (abbreviation) return abbreviation
+
+  if (!trimmed.includes('/')) return undefined
+  try {
+    return Intl.DateTimeFormat('en-US', { timeZone: trimmed }).resolvedOptions().timeZone
+  } catch {
+    return undefined
+  }
+}
+
+export function getLocalMinutes(timezone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(at)
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0)
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0)
+  return hour * 60 + minute
+}
+
+export function isWithinWindow(timezone: string, window: CallingWindow, at: Date): boolean {
+  const local = getLocalMinutes(timezone, at)
+  return local >= toMinutes(window.start) && local < toMinutes(window.end)
+}
+
+/**
+ * Counts leads whose local time at `at` falls outside the calling window.
+ * Leads without a timezone can't be checked and are counted separately.
+ */
+export function checkCallingWindow(
+  leads: Array<{ timezone?: string }>,
+  window: CallingWindow,
+  at: Date = new Date()
+): CallingWindowCheck {
+  const outside: Record<string, number> = {}
+  let outsideCount = 0
+  let unknownCount = 0
+  const cache: Record<string, boolean> = {}
+
+  leads.forEach(lead => {
+    if (!lead.timezone) {
+      unknownCount++
+      return
+    }
+    if (cache[lead.timezone] === undefined) {
+      cache[lead.timezone] = isWithinWindow(lead.timezone, window, at)
+    }
+    if (!cache[lead.timezone]) {
+      outside[lead.timezone] = (outside[lead.timezone] || 0) + 1
+      outsideCount++
+    }
+  })
+
+  return { outside, outsideCount, unknownCount }
+}
+
+export function mergeCallingWindowChecks(checks: CallingWindowCheck[]): CallingWindowCheck {
+  const outside: Record<string, number> = {}
+  checks.forEach(check => {
+    Object.keys(check.outside).forEach(timezone => {
+      outside[timezone] = (outside[timezone] || 0) + check.outside[timezone]
+    })
+  })
+  return {
+    outside,
+    outsideCount: checks.reduce((sum, check) => sum + check.outsideCount, 0),
+    unknownCount: checks.reduce((sum, check) => sum + check.unknownCount, 0)
+  }
+}
+
+/**
+ * The instant a wall-clock date and time ("2025-03-14", "10:00") occurs in a timezone.
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, 0, toMinutes(time))
+  // The offset is looked up twice so a DST change between the guess and the answer settles
+  let instant = asUtc - getOffset(timezone, new Date(asUtc))
+  instant = asUtc - getOffset(timezone, new Date(instant))
+  return new Date(instant)
+}
+
+// Milliseconds the timezone's wall clock is ahead of UTC at the given instant
+function getOffset(timezone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(at)
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0)
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000
+}
+
+function timezoneFromPhone(e164: string, country: CountryCode): string | undefined {
+  const single = COUNTRY_TIMEZONES[country]
+  if (single) return single
+
+  if (country === 'US' || country === 'CA') {
+    // +1 NXX ...
+    return areaCodeTables[country][e164.slice(2, 5)]
+  }
+  if (country === 'AU') {
+    // +61 N ...
+    return areaCodeTables.AU[e164.slice(3, 4)]
+  }
+  return undefined
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+function invert(table: Record<string, string>): Record<string, string> {
+  const inverted: Record<string, string> = {}
+  Object.keys(table).forEach(timezone => {
+    table[timezone].split(' ').forEach(key => {
+      inverted[key] = timezone
+    })
+  })
+  return inverted
+}
+
+// "CA california|NV nevada" -> { ca: ..., california: ..., nv: ..., nevada: ... }
+function invertRegions(table: Record<string, string>): Record<string, string> {
+  const inverted: Record<string, string> = {}
+  Object.keys(table).forEach(timezone => {
+    table[timezone].split('|').forEach(entry => {
+      const space = entry.indexOf(' ')
+      inverted[entry.slice(0, space).toLowerCase()] = timezone
+      inverted[entry.slice(space + 1)] = timezone
+    })
+  })
+  return inverted
+}
@@ -0,0 +1,102 @@
+export type ColumnTransform =
+  // Appends another column, e.g. "First Name" + " " + "Last Name"
+  | { type: 'concat'; column: string; separator: string }
+  // Keeps one part of the value; negative index counts from the end
+  | { type: 'split'; separator: string; index: number }
+  | { type: 'trim' }
+  | { type: 'case'; mode: 'lower' | 'upper' | 'title' }
+  | { type: 'replace'; pattern: string; replacement: string; flags: string }
+  // Used when the value is still empty at this point in the pipeline
+  | { type: 'default'; value: string }
+
+export type TransformType = ColumnTransform['type']
+
+export const TRANSFORM_LABELS: Record<TransformType, string> = {
+  concat: 'Concatenate',
+  split: 'Split',
+  trim: 'Trim',
+  case: 'Change case',
+  replace: 'Regex replace',
+  default: 'Default value'
+}
+
+export function createTransform(type: TransformType): ColumnTransform {
+  switch (type) {
+    case 'concat':
+      return { type, column: '', separator: ' ' }
+    case 'split':
+      return { type, separator: ' ', index: 0 }
+    case 'trim':
+      return { type }
+    case 'case':
+      return { type, mode: 'lower' }
+    case 'replace':
+      return { type, pattern: '', replacement: '', flags: 'gi' }
+    case 'default':
+      return { type, value: '' }
+  }
+}
+
+export function getTransformError(transform: ColumnTransform): string | null {
+  if (transform.type === 'concat' && !transform.column) {
+    return 'Choose a column to append'
+  }
+  if (transform.type === 'replace') {
+    if (!transform.pattern) return 'Enter a pattern'
+    try {
+      new RegExp(transform.pattern, transform.flags)
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression'
+    }
+  }
+  return null
+}
+
+/**
+ * Compiles a transform list once so it can be run over many rows. Transforms
+ * with errors are skipped rather than failing the whole import.
+ */
+export function compileTransforms(
+  transforms: ColumnTransform[]
+): (value: unknown, row: Record<string, any>) => string {
+  const steps = transforms
+    .filter(transform => getTransformError(transform) === null)
+    .map(toStep)
+
+  return (value, row) => steps.reduce(
+    (current, step) => step(current, row),
+    value == null ? '' : String(value)
+  )
+}
+
+function toStep(transform: ColumnTransform): (value: string, row: Record<string, any>) => string {
+  switch (transform.type) {
+    case 'concat':
+      return (value, row) => {
+        const other = row[transform.column] == null ? '' : String(row[transform.column])
+        // Skip the separator when either side is empty, so "Ann" + "" stays "Ann"
+        return value && other ? `${value}${transform.separator}${other}` : value || other
+      }
+    case 'split':
+      return value => {
+        if (!transform.separator) return value
+        const parts = value.split(transform.separator)
+        const index = transform.index < 0 ? parts.length + transform.index : transform.index
+        return parts[index] ?? ''
+      }
+    case 'trim':
+      return value => value.trim().replace(/\s+/g, ' ')
+    case 'case':
+      return value => {
+        if (transform.mode === 'lower') return value.toLowerCase()
+        if (transform.mode === 'upper') return value.toUpperCase()
+        return value.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, start, letter) => start + letter.toUpperCase())
+      }
+    case 'replace': {
+      const pattern = new RegExp(transform.pattern, transform.flags)
+      return value => value.replace(pattern, transform.replacement)
+    }
+    case 'default':
+      return value => value.trim() === '' ? transform.value : value
+  }
+}
@@ -0,0 +1,223 @@
+import { ValidatedLead, ValidationResult } from './dataValidator'
+import { BatchResult, SchedulePlan, CAMPAIGN_BATCH_SIZE } from './vapiClient'
+
+// One campaign of an upload job, with the batches Vapi has answered for so far
+export interface UploadJobCampaign {
+  name: string
+  leadCount: number
+  totalBatches: number
+  timezone?: string
+  startsAt?: string
+  schedulePlan?: SchedulePlan
+  // When the campaign was first asked for; the request may have created it even if no answer came back
+  requestedAt?: string
+  // Set once Vapi has created the campaign
+  campaignId?: string
+  batches: BatchResult[]
+}
+
+// A batch Vapi hasn't confirmed, with the leads it holds
+export interface FailedBatch {
+  campaignName: string
+  campaignId?: string
+  batchNumber: number
+  error?: string
+  leads: ValidatedLead[]
+}
+
+/**
+ * An upload saved while it runs, so that one interrupted by a closed tab can
+ * be resumed without sending the batches Vapi already confirmed a second time.
+ * The leads are stored separately as they are written only once.
+ */
+export interface UploadJob {
+  id: string
+  createdAt: string
+  updatedAt: string
+  assistantId?: string
+  workflowId?: string
+  phoneNumberId?: string
+  campaigns: UploadJobCampaign[]
+  // Validation totals for the result screen
+  summary: ValidationResult['summary']
+}
+
+const DB_NAME = 'vapi-campaign-builder'
+const DB_VERSION = 1
+const JOB_STORE = 'upload-jobs'
+const LEAD_STORE = 'upload-job-leads'
+
+export function createUploadJob(
+  campaigns: Array<Omit<UploadJobCampaign, 'leadCount' | 'totalBatches' | 'batches'> & { leads: ValidatedLead[] }>,
+  settings: Pick<UploadJob, 'assistantId' | 'workflowId' | 'phoneNumberId' | 'summary'>
+): UploadJob {
+  const now = new Date().toISOString()
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+    updatedAt: now,
+    ...settings,
+    campaigns: campaigns.map(({ leads, ...campaign }) => ({
+      ...campaign,
+      leadCount: leads.length,
+      totalBatches: Math.ceil(leads.length / CAMPAIGN_BATCH_SIZE),
+      batches: []
+    }))
+  }
+}
+
+// Saved before the campaign is created, so a resumed job looks for it before creating another
+export function recordCampaignRequest(job: UploadJob, campaignIndex: number): UploadJob {
+  const now = new Date().toISOString()
+  return {
+    ...job,
+    updatedAt: now,
+    campaigns: job.campaigns.map((campaign, index) => index !== campaignIndex ? campaign : { ...campaign, requestedAt: now })
+  }
+}
+
+// Records Vapi's answer for a batch, replacing an earlier attempt at the same batch
+export function recordUploadBatch(job: UploadJob, campaignIndex: number, campaignId: string, batch: BatchResult): UploadJob {
+  return {
+    ...job,
+    updatedAt: new Date().toISOString(),
+    campaigns: job.campaigns.map((campaign, index) => index !== campaignIndex ? campaign : {
+      ...campaign,
+      campaignId,
+      batches: campaign.batches
+        .filter(existing => existing.batchNumber !== batch.batchNumber)
+        .concat(batch)
+        .sort((a, b) => a.batchNumber - b.batchNumber)
+    })
+  }
+}
+
+// Batch numbers Vapi confirmed; every other batch is sent when the job resumes
+export function getSentBatches(campaign: UploadJobCampaign): number[] {
+  return campaign.batches.filter(batch => batch.success).map(batch => batch.batchNumber)
+}
+
+// Every batch of the job that wasn't confirmed, e.g. after failing all retries
+export function getFailedBatches(job: UploadJob, leads: ValidatedLead[][]): FailedBatch[] {
+  const failed: FailedBatch[] = []
+  job.campaigns.forEach((campaign, index) => {
+    const sent = getSentBatches(campaign)
+    for (let batchNumber = 1; batchNumber <= campaign.totalBatches; batchNumber++) {
+      if (sent.indexOf(batchNumber) !== -1) continue
+      const attempt = campaign.batches.find(batch => batch.batchNumber === batchNumber)
+      failed.push({
+        campaignName: campaign.name,
+        campaignId: campaign.campaignId,
+        batchNumber,
+        error: attempt?.error,
+        leads: leads[index].slice((batchNumber - 1) * CAMPAIGN_BATCH_SIZE, batchNumber * CAMPAIGN_BATCH_SIZE)
+      })
+    }
+  })
+  return failed
+}
+
+export function isCampaignUploaded(campaign: UploadJobCampaign): boolean {
+  return Boolean(campaign.campaignId) && getSentBatches(campaign).length === campaign.totalBatches
+}
+
+export function isUploadJobDone(job: UploadJob): boolean {
+  return job.campaigns.every(isCampaignUploaded)
+}
+
+// Saves a new job together with its leads, one array per campaign
+export async function storeUploadJob(job: UploadJob, leads: ValidatedLead[][]) {
+  try {
+    const db = await openDatabase()
+    const transaction = db.transaction([JOB_STORE, LEAD_STORE], 'readwrite')
+    transaction.objectStore(JOB_STORE).put(job)
+    transaction.objectStore(LEAD_STORE).put({ id: job.id, leads })
+    await completion(transaction)
+  } catch (error) {
+    console.error('Failed to save upload job:', error)
+  }
+}
+
+export async function saveUploadJob(job: UploadJob) {
+  try {
+    const db = await openDatabase()
+    const transaction = db.transaction(JOB_STORE, 'readwrite')
+    transaction.objectStore(JOB_STORE).put(job)
+    await completion(transaction)
+  } catch (error) {
+    console.error('Failed to save upload job:', error)
+  }
+}
+
+// The most recently updated job that didn't finish, if any
+export async function loadUnfinishedUploadJob(): Promise<UploadJob | null> {
+  try {
+    const db = await openDatabase()
+    const jobs: UploadJob[] = await request(db.transaction(JOB_STORE).objectStore(JOB_STORE).getAll())
+    const unfinished = jobs.filter(job => !isUploadJobDone(job))
+    unfinished.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    return unfinished[0] || null
+  } catch (error) {
+    console.error('Failed to load upload jobs:', error)
+    return null
+  }
+}
+
+export async function loadUploadJobLeads(id: string): Promise<ValidatedLead[][] | null> {
+  try {
+    const db = await openDatabase()
+    const record = await request(db.transaction(LEAD_STORE).objectStore(LEAD_STORE).get(id))
+    return record ? record.leads : null
+  } catch (error) {
+    console.error('Failed to load upload job leads:', error)
+    return null
+  }
+}
+
+export async function deleteUploadJob(id: string) {
+  try {
+    const db = await openDatabase()
+    const transaction = db.transaction([JOB_STORE, LEAD_STORE], 'readwrite')
+    transaction.objectStore(JOB_STORE).delete(id)
+    transaction.objectStore(LEAD_STORE).delete(id)
+    await completion(transaction)
+  } catch (error) {
+    console.error('Failed to delete upload job:', error)
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+  if (!database) {
+    const open = window.indexedDB.open(DB_NAME, DB_VERSION)
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(JOB_STORE, { keyPath: 'id' })
+      open.result.createObjectStore(LEAD_STORE, { keyPath: 'id' })
+    }
+    database = request(open)
+    // Let a later call try again, e.g. after the user allowed storage
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
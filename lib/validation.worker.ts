@@ -0,0 +1,19 @@
+// Web Worker that runs lead validation off the main thread; see workerTasks
+import { WORKER_TASKS, WorkerRequest, WorkerResponse } from './workerTasks'
+
+const ctx = self as unknown as Worker
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { id, task, payload, context, offset = 0 } = e.data
+
+  try {
+    const result = WORKER_TASKS[task](payload, context, offset)
+    ctx.postMessage({ id, type: 'result', payload: result } as WorkerResponse)
+  } catch (error) {
+    ctx.postMessage({
+      id,
+      type: 'error',
+      payload: error instanceof Error ? error.message : String(error)
+    } as WorkerResponse)
+  }
+}
@@ -1,10 +1,88 @@
 import { ValidatedLead } from './dataValidator'
+import { abortableDelay, isAbortError } from './abort'
+import { VapiError, toVapiError, toNetworkError, getRetryAfterMs } from './vapiError'
 
 export interface CampaignCreateResponse {
   success: boolean
   campaignId?: string
-  error?: string
-  details?: any
+  // Why the campaign couldn't be created
+  error?: VapiError
+  // Set when the upload was stopped through the abort signal; campaignId is
+  // set too if the campaign had already been created
+  cancelled?: boolean
+  // Set when the campaign was created but some batches still failed after retrying
+  partial?: boolean
+  details?: {
+    totalLeads: number
+    totalBatches: number
+    // Every batch that was sent, starting with the one sent with the campaign
+    batches: BatchResult[]
+  }
+}
+
+// Calls are only placed between these ISO timestamps
+export interface SchedulePlan {
+  earliestAt: string
+  latestAt?: string
+}
+
+// Picks up an upload whose campaign Vapi has already created
+export interface CampaignResume {
+  campaignId: string
+  // Batches Vapi confirmed, which are not sent again
+  sentBatches: number[]
+}
+
+// Leads sent per request
+export const CAMPAIGN_BATCH_SIZE = 1000
+
+// Items asked for per page of a list, Vapi's default; a short page is the last one
+const LIST_PAGE_SIZE = 100
+
+/**
+ * Where the next page of a list starts. Vapi lists newest first, so a page
+ * asks for items created at or before the last one received: items sharing
+ * that timestamp aren't skipped, and the ones already received are dropped.
+ */
+export interface ListCursor {
+  createdAtLe: string
+  boundaryIds: string[]
+}
+
+export interface ListPage<T> {
+  items: T[]
+  // Missing after the last page
+  next?: ListCursor
+}
+
+// Failed requests are retried after a delay that doubles from baseDelayMs up to
+// maxDelayMs, with jitter, unless the response's Retry-After says otherwise
+export interface RetryOptions {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Longest Retry-After honoured, so a far-off date can't stall an upload
+  maxRetryAfterMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000
+}
+
+// Why a request failed: its status, or 'network' when no response came back
+type FailureCause = number | 'network'
+
+interface RequestOptions {
+  // Aborts the request and any wait before a retry
+  signal?: AbortSignal
+  // Whether a failure may pass on a retry; isRetryableStatus by default
+  canRetry?: (cause: FailureCause) => boolean
+  // Lets a request already under way finish when the signal aborts, so it is
+  // always known whether Vapi got it; only the waits are cut short
+  finishInFlight?: boolean
 }
 
 export interface BatchResult {
@@ -17,10 +95,16 @@ export interface BatchResult {
 export interface Assistant {
   id: string
   name: string
+  createdAt?: string
   firstMessage?: string
   model?: {
     provider: string
     model: string
+    // Only present when the full assistant is fetched; the system prompt lives here
+    messages?: Array<{
+      role: string
+      content?: string
+    }>
   }
 }
 
@@ -38,111 +122,126 @@ export interface PhoneNumber {
   assistantId?: string
   twilioPhoneNumber?: string
   provider?: string
+  createdAt?: string
+}
+
+// The statuses Vapi documents for a campaign; it can be ended but not paused
+export type CampaignStatus = 'scheduled' | 'in-progress' | 'ended'
+
+// A campaign as Vapi lists it
+export interface Campaign {
+  id: string
+  name: string
+  status: CampaignStatus
+  endedReason?: string
+  assistantId?: string
+  workflowId?: string
+  phoneNumberId?: string
+  schedulePlan?: SchedulePlan
+  customers?: Array<{ number: string; name?: string }>
+  callsCounterScheduled?: number
+  callsCounterQueued?: number
+  callsCounterInProgress?: number
+  callsCounterEndedVoicemail?: number
+  callsCounterEnded?: number
+  createdAt?: string
+  updatedAt?: string
+}
+
+export interface CampaignUpdate {
+  name?: string
+  status?: CampaignStatus
+}
+
+// Vapi rejects unknown customer properties, so only send the contact fields
+// plus per-customer variable values for the assistant's {{placeholders}}
+function toCustomer(lead: ValidatedLead) {
+  return {
+    name: lead.name,
+    number: lead.number,
+    ...(lead.email && { email: lead.email }),
+    ...(lead.variables && {
+      assistantOverrides: {
+        variableValues: lead.variables
+      }
+    })
+  }
+}
+
+// List endpoints answer with an array, though some responses have wrapped it
+function toList(data: any): any[] {
+  if (Array.isArray(data)) {
+    return data
+  } else if (data && Array.isArray(data.phoneNumbers)) {
+    return data.phoneNumbers
+  } else if (data && Array.isArray(data.data)) {
+    return data.data
+  } else if (data && Array.isArray(data.results)) {
+    return data.results
+  } else {
+    return []
+  }
+}
+
+// Rate limits, timeouts, server errors and network failures may pass on a retry
+function isRetryableStatus(cause: FailureCause): boolean {
+  return cause === 'network' || cause === 408 || cause === 429 || cause >= 500
 }
 
 export class VapiClient {
   private apiKey: string
   private baseUrl: string = '/api/vapi-proxy'
+  private retryOptions: RetryOptions
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, retryOptions: Partial<RetryOptions> = {}) {
     this.apiKey = apiKey
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions }
   }
 
+  // False when the key is rejected; a failure to check it at all is thrown
   async validateApiKey(): Promise<boolean> {
+    let response: Response
     try {
-      const response = await fetch('/api/validate-key', {
+      response = await fetch('/api/validate-key', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ apiKey: this.apiKey })
       })
-
-      const data = await response.json()
-      return data.valid === true
     } catch (error) {
-      console.error('API key validation error:', error)
-      return false
+      throw toNetworkError(error)
     }
-  }
-
-  async getAssistants(): Promise<Assistant[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/assistant`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Vapi-Key': this.apiKey
-        }
-      })
 
-      if (!response.ok) {
-        console.error('Failed to fetch assistants')
-        return []
-      }
-
-      const data = await response.json()
-      return Array.isArray(data) ? data : []
-    } catch (error) {
-      console.error('Error fetching assistants:', error)
-      return []
+    if (response.status >= 500) {
+      throw await toVapiError(response, 'Failed to validate API key')
     }
+    const data = await response.json()
+    return data.valid === true
   }
 
-  async getWorkflows(): Promise<Workflow[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/workflow`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Vapi-Key': this.apiKey
-        }
-      })
+  async getAssistants(cursor?: ListCursor): Promise<ListPage<Assistant>> {
+    return this.listPage('assistant', 'Failed to fetch assistants', cursor)
+  }
 
-      if (!response.ok) {
-        console.error('Failed to fetch workflows')
-        return []
-      }
+  async getAssistant(assistantId: string): Promise<Assistant> {
+    return this.getJson(`assistant/${assistantId}`, 'Failed to fetch assistant')
+  }
 
-      const data = await response.json()
-      return Array.isArray(data) ? data : []
-    } catch (error) {
-      console.error('Error fetching workflows:', error)
-      return []
-    }
+  async getWorkflows(cursor?: ListCursor): Promise<ListPage<Workflow>> {
+    return this.listPage('workflow', 'Failed to fetch workflows', cursor)
   }
 
-  async getPhoneNumbers(): Promise<PhoneNumber[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/phone-number`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Vapi-Key': this.apiKey
-        }
-      })
-      
-      if (!response.ok) {
-        console.error('Failed to fetch phone numbers')
-        return []
-      }
+  async getWorkflow(workflowId: string): Promise<Workflow> {
+    return this.getJson(`workflow/${workflowId}`, 'Failed to fetch workflow')
+  }
 
-      const data = await response.json()
-      
-      // Check if data is an array or has a specific structure
-      if (Array.isArray(data)) {
-        return data
-      } else if (data && Array.isArray(data.phoneNumbers)) {
-        return data.phoneNumbers
-      } else if (data && Array.isArray(data.data)) {
-        return data.data
-      } else {
-        return []
-      }
-    } catch (error) {
-      console.error('Error fetching phone numbers:', error)
-      return []
-    }
+  async getPhoneNumbers(cursor?: ListCursor): Promise<ListPage<PhoneNumber>> {
+    return this.listPage('phone-number', 'Failed to fetch phone numbers', cursor)
+  }
+
+  async getPhoneNumber(phoneNumberId: string): Promise<PhoneNumber> {
+    return this.getJson(`phone-number/${phoneNumberId}`, 'Failed to fetch phone number')
   }
 
   async createCampaign(
@@ -151,82 +250,205 @@ export class VapiClient {
     assistantId?: string,
     workflowId?: string,
     phoneNumberId?: string,
-    onProgress?: (batchNumber: number, totalBatches: number) => void
+    onProgress?: (batchNumber: number, totalBatches: number) => void,
+    schedulePlan?: SchedulePlan,
+    signal?: AbortSignal,
+    resume?: CampaignResume,
+    // Called with Vapi's answer for each batch, so progress can be saved as it
+    // happens; the next request waits for a returned promise
+    onBatch?: (batch: BatchResult, campaignId: string) => void | Promise<void>
   ): Promise<CampaignCreateResponse> {
-    try {
-      const batchSize = 1000
-      const batches = this.createBatches(leads, batchSize)
-      const batchResults: BatchResult[] = []
-      
-      // Create the campaign first
-      const campaignBody: any = {
-        name: campaignName,
-        customers: batches[0] // Send first batch with campaign creation
-      }
-      
-      // Add assistant or workflow ID
-      if (assistantId) {
-        campaignBody.assistantId = assistantId
-      } else if (workflowId) {
-        campaignBody.workflowId = workflowId
+    // Vapi needs the first batch to create the campaign with
+    if (leads.length === 0) {
+      return { success: false, error: new VapiError('There are no leads to add to the campaign', 'invalid-request') }
+    }
+
+    const batches = this.createBatches(leads, CAMPAIGN_BATCH_SIZE)
+    // Batches confirmed by an earlier attempt count as sent
+    const batchResults: BatchResult[] = (resume ? resume.sentBatches : []).map(batchNumber => ({
+      batchNumber,
+      success: true,
+      leadsProcessed: batches[batchNumber - 1].length
+    }))
+    let campaignId: string | undefined = resume?.campaignId
+    const getDetails = () => ({
+      totalLeads: leads.length,
+      totalBatches: batches.length,
+      batches: batchResults.slice().sort((a, b) => a.batchNumber - b.batchNumber)
+    })
+    const record = async (batch: BatchResult) => {
+      batchResults.push(batch)
+      if (onBatch) {
+        await onBatch(batch, campaignId!)
       }
-      
-      // Add phone number ID if provided
-      if (phoneNumberId) {
-        campaignBody.phoneNumberId = phoneNumberId
+    }
+
+    try {
+      // A request in flight is never aborted (see finishInFlight), so it is always
+      // known whether the campaign exists and which batches Vapi has received
+      if (signal?.aborted) {
+        return { success: false, cancelled: true, campaignId, details: getDetails() }
       }
-      
-      const campaignResponse = await this.sendRequest('campaign', campaignBody)
 
-      if (!campaignResponse.ok) {
-        const error = await campaignResponse.json()
-        return {
-          success: false,
-          error: error.message || 'Failed to create campaign'
+      if (!campaignId) {
+        // Create the campaign first
+        const campaignBody: any = {
+          name: campaignName,
+          customers: batches[0].map(toCustomer) // Send first batch with campaign creation
+        }
+
+        // Add assistant or workflow ID
+        if (assistantId) {
+          campaignBody.assistantId = assistantId
+        } else if (workflowId) {
+          campaignBody.workflowId = workflowId
+        }
+
+        // Add phone number ID if provided
+        if (phoneNumberId) {
+          campaignBody.phoneNumberId = phoneNumberId
+        }
+
+        if (schedulePlan) {
+          campaignBody.schedulePlan = schedulePlan
         }
+
+        // Only a rate-limited request is known not to have created the campaign; after
+        // a network failure it may exist, so that is left for the resumed upload to find
+        const campaignResponse = await this.sendRequest('POST', 'campaign', campaignBody, {
+          signal,
+          canRetry: cause => cause === 429,
+          finishInFlight: true
+        })
+
+        if (!campaignResponse.ok) {
+          return {
+            success: false,
+            error: await toVapiError(campaignResponse, 'Failed to create campaign')
+          }
+        }
+
+        const campaignData = await campaignResponse.json()
+        campaignId = campaignData.id as string
+        await record({ batchNumber: 1, success: true, leadsProcessed: batches[0].length })
       }
 
-      const campaignData = await campaignResponse.json()
-      const campaignId = campaignData.id
+      // Send every batch Vapi hasn't confirmed yet
+      for (let i = 0; i < batches.length; i++) {
+        if (batchResults.some(batch => batch.batchNumber === i + 1)) continue
 
-      // Process remaining batches
-      for (let i = 1; i < batches.length; i++) {
         if (onProgress) {
           onProgress(i + 1, batches.length)
         }
 
         // Add delay between batches
-        await this.delay(2000)
+        await abortableDelay(2000, signal)
 
-        const batchResponse = await this.sendRequest(`campaign/${campaignId}/customers`, {
-          customers: batches[i]
-        })
+        // A batch that fails every retry is recorded and the rest are still sent;
+        // "Retry failed batches" picks it up afterwards
+        let batch: BatchResult
+        try {
+          const batchResponse = await this.sendRequest('POST', `campaign/${campaignId}/customers`, {
+            customers: batches[i].map(toCustomer)
+          }, { signal, finishInFlight: true })
+          batch = {
+            batchNumber: i + 1,
+            success: batchResponse.ok,
+            leadsProcessed: batches[i].length,
+            error: !batchResponse.ok
+              ? `HTTP ${batchResponse.status}: ${(await toVapiError(batchResponse, 'Failed to add batch')).message}`
+              : undefined
+          }
+        } catch (error) {
+          if (isAbortError(error)) throw error
+          batch = { batchNumber: i + 1, success: false, leadsProcessed: batches[i].length, error: toNetworkError(error).message }
+        }
+        await record(batch)
+      }
 
-        batchResults.push({
-          batchNumber: i + 1,
-          success: batchResponse.ok,
-          leadsProcessed: batches[i].length,
-          error: !batchResponse.ok ? 'Failed to add batch' : undefined
-        })
+      // The campaign exists but is missing the leads of batches that failed every retry
+      if (batchResults.some(batch => !batch.success)) {
+        return {
+          success: false,
+          partial: true,
+          campaignId,
+          details: getDetails()
+        }
       }
 
       return {
         success: true,
         campaignId,
-        details: {
-          totalLeads: leads.length,
-          batches: batchResults
-        }
+        details: getDetails()
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        return { success: false, cancelled: true, campaignId, details: getDetails() }
+      }
       console.error('Campaign creation error:', error)
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        // Once the campaign exists, what Vapi confirmed is reported like failed batches are
+        ...(campaignId && { partial: true, details: getDetails() }),
+        campaignId,
+        error: toNetworkError(error)
       }
     }
   }
 
+  async getCampaigns(cursor?: ListCursor): Promise<ListPage<Campaign>> {
+    return this.listPage('campaign', 'Failed to fetch campaigns', cursor)
+  }
+
+  /**
+   * The newest campaign with this name created since the given ISO time, e.g.
+   * one whose create request got no answer. Only pages back to that time.
+   */
+  async findCampaign(name: string, createdSince: string): Promise<Campaign | undefined> {
+    let cursor: ListCursor | undefined
+    do {
+      const page = await this.getCampaigns(cursor)
+      const found = page.items.find(campaign => campaign.name === name && (campaign.createdAt || '') >= createdSince)
+      if (found) return found
+      const last = page.items[page.items.length - 1]
+      if (!last || !last.createdAt || last.createdAt < createdSince) return undefined
+      cursor = page.next
+    } while (cursor)
+    return undefined
+  }
+
+  async getCampaign(campaignId: string): Promise<Campaign> {
+    return this.getJson(`campaign/${campaignId}`, 'Failed to fetch campaign')
+  }
+
+  // Returns the campaign as Vapi saved it
+  async updateCampaign(campaignId: string, update: CampaignUpdate): Promise<Campaign> {
+    let response: Response
+    try {
+      response = await this.sendRequest('PATCH', `campaign/${campaignId}`, update, { canRetry: cause => cause === 429 })
+    } catch (error) {
+      throw toNetworkError(error)
+    }
+
+    if (!response.ok) {
+      throw await toVapiError(response, 'Failed to update campaign')
+    }
+    return response.json()
+  }
+
+  async deleteCampaign(campaignId: string): Promise<void> {
+    let response: Response
+    try {
+      response = await this.sendRequest('DELETE', `campaign/${campaignId}`, undefined, { canRetry: cause => cause === 429 })
+    } catch (error) {
+      throw toNetworkError(error)
+    }
+
+    if (!response.ok) {
+      throw await toVapiError(response, 'Failed to delete campaign')
+    }
+  }
+
   private createBatches<T>(array: T[], batchSize: number): T[][] {
     const batches: T[][] = []
     for (let i = 0; i < array.length; i += batchSize) {
@@ -235,18 +457,90 @@ export class VapiClient {
     return batches
   }
 
-  private async sendRequest(endpoint: string, body: any): Promise<Response> {
-    return fetch(`${this.baseUrl}/${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Vapi-Key': this.apiKey
-      },
-      body: JSON.stringify(body)
-    })
+  // Sends a request through the proxy, retrying while canRetry accepts the failure.
+  // The last response is returned whatever its status.
+  private async sendRequest(
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    endpoint: string,
+    body?: any,
+    { signal, canRetry = isRetryableStatus, finishInFlight = false }: RequestOptions = {}
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const retriesLeft = attempt < this.retryOptions.retries
+      let response: Response
+      try {
+        response = await fetch(`${this.baseUrl}/${endpoint}`, {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Vapi-Key': this.apiKey
+          },
+          ...(body !== undefined && { body: JSON.stringify(body) }),
+          ...(!finishInFlight && { signal })
+        })
+      } catch (error) {
+        if (isAbortError(error) || !retriesLeft || !canRetry('network')) throw error
+        await abortableDelay(this.getBackoffMs(attempt), signal)
+        continue
+      }
+
+      if (response.ok || !retriesLeft || !canRetry(response.status)) {
+        return response
+      }
+      const retryAfter = getRetryAfterMs(response)
+      await abortableDelay(
+        retryAfter !== undefined ? Math.min(retryAfter, this.retryOptions.maxRetryAfterMs) : this.getBackoffMs(attempt),
+        signal
+      )
+    }
+  }
+
+  // GETs from the proxy, throwing a VapiError for any failure
+  private async getJson(endpoint: string, fallbackMessage: string): Promise<any> {
+    let response: Response
+    try {
+      response = await this.sendRequest('GET', endpoint)
+    } catch (error) {
+      throw toNetworkError(error)
+    }
+
+    if (!response.ok) {
+      throw await toVapiError(response, fallbackMessage)
+    }
+    return response.json()
+  }
+
+  // Loads one page of a list; further pages are only loaded when asked for, as
+  // each is a request of its own against the proxy's rate limit
+  private async listPage<T extends { id: string; createdAt?: string }>(
+    resource: string,
+    fallbackMessage: string,
+    cursor?: ListCursor
+  ): Promise<ListPage<T>> {
+    const query = `limit=${LIST_PAGE_SIZE}${cursor ? `&createdAtLe=${encodeURIComponent(cursor.createdAtLe)}` : ''}`
+    const page: T[] = toList(await this.getJson(`${resource}?${query}`, fallbackMessage))
+    const items = cursor ? page.filter(item => cursor.boundaryIds.indexOf(item.id) === -1) : page
+
+    const last = page[page.length - 1]
+    // A page with nothing new means more items share one timestamp than fit on a
+    // page, so there is no way past them; without a creation date there is nothing to continue from
+    if (page.length < LIST_PAGE_SIZE || items.length === 0 || !last.createdAt) {
+      return { items }
+    }
+    const boundaryIds = page.filter(item => item.createdAt === last.createdAt).map(item => item.id)
+    return {
+      items,
+      next: {
+        createdAtLe: last.createdAt,
+        boundaryIds: cursor && cursor.createdAtLe === last.createdAt ? cursor.boundaryIds.concat(boundaryIds) : boundaryIds
+      }
+    }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  // Exponential backoff with jitter, so clients that failed together don't retry together
+  private getBackoffMs(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryOptions
+    const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt))
+    return delay / 2 + Math.random() * delay / 2
   }
 }
\ No newline at end of file
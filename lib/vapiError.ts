@@ -0,0 +1,82 @@
+// How a Vapi request failed, which decides what the user is told to do about it
+export type VapiErrorKind =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'rate-limited'
+  | 'invalid-request'
+  | 'server'
+  | 'network'
+
+/**
+ * A failed request to Vapi (through the proxy). status is missing when no
+ * response arrived at all; code is Vapi's own error name when it sent one.
+ */
+export class VapiError extends Error {
+  kind: VapiErrorKind
+  status?: number
+  code?: string
+  retryable: boolean
+  // From Retry-After, when Vapi or the proxy said how long to wait
+  retryAfterMs?: number
+
+  constructor(message: string, kind: VapiErrorKind, details: { status?: number; code?: string; retryAfterMs?: number } = {}) {
+    super(message)
+    // Keeps instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, VapiError.prototype)
+    this.name = 'VapiError'
+    this.kind = kind
+    this.status = details.status
+    this.code = details.code
+    this.retryAfterMs = details.retryAfterMs
+    this.retryable = kind === 'rate-limited' || kind === 'server' || kind === 'network'
+  }
+}
+
+export function getVapiErrorKind(status: number): VapiErrorKind {
+  if (status === 401) return 'unauthorized'
+  if (status === 403) return 'forbidden'
+  if (status === 404) return 'not-found'
+  if (status === 429) return 'rate-limited'
+  if (status === 408 || status >= 500) return 'server'
+  return 'invalid-request'
+}
+
+// Retry-After holds either a number of seconds or an HTTP date
+export function getRetryAfterMs(response: Response): number | undefined {
+  const value = response.headers.get('Retry-After')
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Builds the error for a response that isn't ok. Vapi answers with
+ * { statusCode, error, message } where message may be a list of validation
+ * failures; the proxy's own errors only have { error }.
+ */
+export async function toVapiError(response: Response, fallbackMessage: string): Promise<VapiError> {
+  let body: any = null
+  try {
+    body = await response.json()
+  } catch {
+    // Not every error response has a JSON body
+  }
+
+  const message = Array.isArray(body?.message)
+    ? body.message.join('; ')
+    : body?.message || body?.error || fallbackMessage
+  return new VapiError(message, getVapiErrorKind(response.status), {
+    status: response.status,
+    code: typeof body?.code === 'string' ? body.code : body?.message ? body.error : undefined,
+    retryAfterMs: getRetryAfterMs(response)
+  })
+}
+
+// Wraps a fetch that failed before any response arrived
+export function toNetworkError(error: unknown): VapiError {
+  if (error instanceof VapiError) return error
+  return new VapiError(error instanceof Error ? error.message : 'Network request failed', 'network')
+}
@@ -0,0 +1,43 @@
+import { extractDataByColumns, ColumnMapping } from './fileParser'
+import { validateRows, RowValidation, ValidationOptions } from './dataValidator'
+
+// Everything a chunk of raw rows needs to be turned into validated rows
+export interface ValidateContext {
+  mapping: ColumnMapping
+  // Index of the first row of the whole batch, for row numbers in reports
+  startIndex: number
+  source: { file?: string; sheet?: string }
+  // Per-row options only; suppression lists are left for finalizeValidation()
+  options: Pick<ValidationOptions, 'defaultCountry' | 'lineTypePolicy'>
+}
+
+export type WorkerTaskName = 'validate'
+
+// `offset` is the chunk's position in the data being processed
+type WorkerTask = (payload: any, context: any, offset: number) => any
+
+/**
+ * Work that can run either inside the validation worker or, where workers
+ * aren't available, on the main thread, so both always give the same result.
+ */
+export const WORKER_TASKS: Record<WorkerTaskName, WorkerTask> = {
+  // Extraction, phone formatting and email checks for one chunk of raw rows
+  validate: (chunk: any[], context: ValidateContext, offset: number): RowValidation[] =>
+    validateRows(
+      extractDataByColumns(chunk, context.mapping, context.startIndex + offset, context.source),
+      context.options
+    )
+}
+
+// Payloads, contexts and results are structured-cloned across the worker boundary
+export interface WorkerRequest {
+  id: number
+  task: WorkerTaskName
+  payload: any
+  context?: any
+  offset?: number
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'result'; payload: any }
+  | { id: number; type: 'error'; payload: string }